@@ -1,37 +1,266 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import InputArea from './components/InputArea';
 import Reader from './components/Reader';
-import { AppState } from './types';
+import Dashboard from './components/Dashboard';
+import { AppState, ImportedDocument, LibraryDocument, QueueItemState, QuizResult, ReaderSettings, ReadingQueue, ReadingSession } from './types';
+import {
+  listDocuments,
+  saveDocument,
+  deleteDocument,
+  createLibraryDocument,
+  countWords,
+  sortByLastRead,
+} from './services/libraryService';
+import { saveQuizResult } from './services/quiz';
+import { createSessionRecord, attachQuizResult, saveSession } from './services/sessionLog';
+import { SessionStats } from './services/sessionTracker';
+import { deleteDocumentAnnotations } from './services/annotations';
+import {
+  loadQueue,
+  saveQueue,
+  queueEntries,
+  addToQueue,
+  removeDocumentFromQueue,
+  setItemState,
+  setItemSummary,
+  nextQueueItem,
+} from './services/readingQueue';
+
+const ACTIVE_DOCUMENT_KEY = 'speedyreader.activeDocumentId';
+const POSITION_SAVE_INTERVAL = 1500; // ms between reading-position writes
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.INPUT);
   const [content, setContent] = useState<string>("");
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [activeDocument, setActiveDocument] = useState<LibraryDocument | null>(null);
+  const [resumeIndex, setResumeIndex] = useState(0);
+  const [queue, setQueue] = useState<ReadingQueue>(loadQueue);
 
-  const handleStartReading = (text: string) => {
-    if (!text.trim()) return;
-    setContent(text);
+  // Refs let the throttled position saver see the latest document without re-binding
+  const activeRef = useRef<LibraryDocument | null>(null);
+  const pendingPositionRef = useRef<number | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The session a following quiz result belongs to
+  const lastSessionRef = useRef<ReadingSession | null>(null);
+
+  const selectDocument = (doc: LibraryDocument | null) => {
+    activeRef.current = doc;
+    setActiveDocument(doc);
+    if (doc) localStorage.setItem(ACTIVE_DOCUMENT_KEY, doc.id);
+    else localStorage.removeItem(ACTIVE_DOCUMENT_KEY);
+  };
+
+  const storeDocument = useCallback((doc: LibraryDocument) => {
+    setDocuments(prev => sortByLastRead([doc, ...prev.filter(d => d.id !== doc.id)]));
+    if (activeRef.current?.id === doc.id) {
+      activeRef.current = doc;
+      setActiveDocument(doc);
+    }
+    saveDocument(doc).catch(error => console.error("Error saving document:", error));
+  }, []);
+
+  useEffect(() => {
+    listDocuments()
+      .then(docs => {
+        setDocuments(docs);
+        // Restore the document that was open before the page was reloaded
+        const last = docs.find(d => d.id === localStorage.getItem(ACTIVE_DOCUMENT_KEY));
+        if (last) {
+          selectDocument(last);
+          setContent(last.text);
+        }
+      })
+      .catch(error => console.error("Error loading library:", error));
+  }, []);
+
+  const flushPosition = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const doc = activeRef.current;
+    const position = pendingPositionRef.current;
+    pendingPositionRef.current = null;
+    if (!doc || position === null || position === doc.position) return;
+    storeDocument({ ...doc, position, lastReadAt: Date.now() });
+  }, [storeDocument]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPosition);
+    return () => window.removeEventListener('pagehide', flushPosition);
+  }, [flushPosition]);
+
+  const handleProgress = (index: number) => {
+    pendingPositionRef.current = index;
+    if (!saveTimerRef.current) {
+      saveTimerRef.current = setTimeout(flushPosition, POSITION_SAVE_INTERVAL);
+    }
+  };
+
+  const openInReader = (doc: LibraryDocument) => {
+    selectDocument(doc);
+    storeDocument(doc);
+    setContent(doc.text);
+    // A finished document starts over instead of resuming on its last word
+    setResumeIndex(doc.position >= doc.wordCount - 1 ? 0 : doc.position);
     setAppState(AppState.READING);
   };
 
+  const handleQueueChange = (next: ReadingQueue) => {
+    setQueue(next);
+    saveQueue(next);
+  };
+
+  // Edits to an open document update it; its position only survives unchanged text
+  const documentFor = (text: string, imported: ImportedDocument | null): LibraryDocument => {
+    const current = activeRef.current;
+    const now = Date.now();
+    if (!current || imported) return createLibraryDocument(text, imported);
+    return current.text === text
+      ? { ...current, lastReadAt: now }
+      : { ...current, text, wordCount: countWords(text), position: 0, lastReadAt: now };
+  };
+
+  // Reading anything outside the queue sets it aside; it resumes where it stopped
+  const leaveQueue = () => {
+    if (queue.currentId) handleQueueChange({ ...queue, currentId: null });
+  };
+
+  const handleStartReading = (text: string, imported: ImportedDocument | null) => {
+    if (!text.trim()) return;
+    leaveQueue();
+    openInReader(documentFor(text, imported));
+  };
+
+  const handleOpenDocument = (doc: LibraryDocument) => {
+    leaveQueue();
+    openInReader({ ...doc, lastReadAt: Date.now() });
+  };
+
+  // Queued texts are saved to the library; the editor then clears for the next one
+  const handleAddToQueue = (text: string, imported: ImportedDocument | null) => {
+    if (!text.trim()) return;
+    const doc = documentFor(text, imported);
+    storeDocument(doc);
+    handleQueueChange(addToQueue(queue, doc.id));
+    handleNewDocument();
+  };
+
+  const openQueueItem = (next: ReadingQueue, itemId: string) => {
+    const item = next.items.find(i => i.id === itemId);
+    const doc = item && documents.find(d => d.id === item.documentId);
+    if (!doc) return;
+    handleQueueChange({ ...next, currentId: itemId });
+    openInReader({ ...doc, lastReadAt: Date.now() });
+  };
+
+  const handleStartQueue = (itemId: string) => {
+    flushPosition();
+    openQueueItem(queue, itemId);
+  };
+
+  // Marks the item being read and moves on; after the last one the queue closes
+  const handleQueueAdvance = (state: QueueItemState) => {
+    flushPosition();
+    const marked = queue.currentId ? setItemState(queue, queue.currentId, state) : queue;
+    const next = nextQueueItem(queueEntries(marked, documents), queue.currentId);
+    if (next) {
+      openQueueItem(marked, next.id);
+    } else {
+      handleQueueChange({ ...marked, currentId: null });
+      setAppState(AppState.INPUT);
+    }
+  };
+
+  const handleQueueSummary = (itemId: string, summary: string) => {
+    handleQueueChange(setItemSummary(queue, itemId, summary));
+  };
+
+  const handleRenameDocument = (doc: LibraryDocument, title: string) => {
+    storeDocument({ ...doc, title });
+  };
+
+  const handleDeleteDocument = (doc: LibraryDocument) => {
+    setDocuments(prev => prev.filter(d => d.id !== doc.id));
+    if (activeRef.current?.id === doc.id) selectDocument(null);
+    handleQueueChange(removeDocumentFromQueue(queue, doc.id));
+    deleteDocument(doc.id).catch(error => console.error("Error deleting document:", error));
+    deleteDocumentAnnotations(doc.id).catch(error => console.error("Error deleting annotations:", error));
+  };
+
+  const handleNewDocument = () => {
+    selectDocument(null);
+    setContent("");
+  };
+
+  const handleSessionEnd = (stats: SessionStats, settings: ReaderSettings, documentId: string | null) => {
+    // Moving through the queue opens the next document before the last session ends
+    const doc = activeRef.current?.id === documentId ? activeRef.current : documents.find(d => d.id === documentId) ?? null;
+    const session = createSessionRecord(stats, settings, doc?.id || null, doc?.title || 'Untitled');
+    lastSessionRef.current = session;
+    saveSession(session).catch(error => console.error("Error saving session:", error));
+  };
+
+  const handleQuizComplete = (result: QuizResult) => {
+    saveQuizResult(result).catch(error => console.error("Error saving quiz result:", error));
+    const session = lastSessionRef.current;
+    if (session && session.documentId === result.documentId) {
+      lastSessionRef.current = attachQuizResult(session, result);
+      saveSession(lastSessionRef.current).catch(error => console.error("Error saving session:", error));
+    }
+  };
+
   const handleBackToEdit = () => {
+    flushPosition();
     setAppState(AppState.INPUT);
   };
 
+  const handleOpenDashboard = () => {
+    setAppState(AppState.DASHBOARD);
+  };
+
   return (
-    <div className="min-h-screen w-full bg-[#0f172a] text-slate-200 selection:bg-blue-500/30">
-      {appState === AppState.INPUT ? (
-        <InputArea 
-          onStart={handleStartReading} 
+    <div className="min-h-screen w-full bg-[var(--reader-bg)] text-slate-200 selection:bg-blue-500/30">
+      {appState === AppState.DASHBOARD ? (
+        <Dashboard onBack={handleBackToEdit} />
+      ) : appState === AppState.INPUT ? (
+        <InputArea
+          key={activeDocument?.id || 'new'}
+          onStart={handleStartReading}
           initialText={content}
+          documents={documents}
+          activeDocumentId={activeDocument?.id || null}
+          onOpenDocument={handleOpenDocument}
+          onRenameDocument={handleRenameDocument}
+          onDeleteDocument={handleDeleteDocument}
+          onNewDocument={handleNewDocument}
+          onOpenDashboard={handleOpenDashboard}
+          queue={queue}
+          onAddToQueue={handleAddToQueue}
+          onQueueChange={handleQueueChange}
+          onStartQueue={handleStartQueue}
         />
       ) : (
-        <Reader 
-          text={content} 
+        <Reader
+          // Each queue item gets a fresh reader, starting on its title card
+          key={queue.currentId ?? 'document'}
+          text={content}
+          initialIndex={resumeIndex}
+          documentId={activeDocument?.id || null}
+          documentTitle={activeDocument?.title}
           onBack={handleBackToEdit}
+          onProgress={handleProgress}
+          onQuizComplete={handleQuizComplete}
+          onSessionEnd={handleSessionEnd}
+          queue={queue.currentId ? queue : undefined}
+          queueEntries={queueEntries(queue, documents)}
+          onQueueAdvance={handleQueueAdvance}
+          onQueueSummary={handleQueueSummary}
         />
       )}
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { X, Check, PlugZap } from 'lucide-react';
+import { AIProviderId, AISettings } from '../types';
+import { PROVIDER_DEFAULTS, defaultAISettings, loadAISettings, saveAISettings } from '../services/aiSettings';
+import { createProvider } from '../services/aiProviders';
+
+interface AISettingsPanelProps {
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60";
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AISettings>(loadAISettings);
+  const [testStatus, setTestStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const update = (patch: Partial<AISettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+    setTestStatus(null);
+  };
+
+  // Switching provider resets model/base URL to that provider's defaults but keeps the key
+  const handleProviderChange = (provider: AIProviderId) => {
+    update({ ...defaultAISettings(provider), apiKey: settings.apiKey });
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestStatus(null);
+    try {
+      const reply = await createProvider(settings).generate({
+        task: 'summarize',
+        input: 'Connection test.',
+        prompt: 'Reply with the single word: OK',
+      });
+      setTestStatus({ ok: true, message: `Connected. Reply: "${reply.trim().slice(0, 60)}"` });
+    } catch (e) {
+      setTestStatus({ ok: false, message: e instanceof Error ? e.message : "Connection failed." });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-white">AI Settings</h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Provider
+          <select
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+            className={inputClass}
+          >
+            {Object.values(PROVIDER_DEFAULTS).map(p => (
+              <option key={p.provider} value={p.provider}>{p.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {settings.provider !== 'mock' && (
+          <>
+            <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+              Model
+              <input value={settings.model} onChange={(e) => update({ model: e.target.value })} className={inputClass} />
+            </label>
+
+            {settings.provider === 'openai' && (
+              <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+                Base URL
+                <input
+                  value={settings.baseUrl}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </label>
+            )}
+
+            <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+              API key {settings.provider === 'openai' && <span className="text-slate-600">(optional for local servers)</span>}
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                autoComplete="off"
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+
+        <p className="text-xs text-slate-500">
+          {settings.provider === 'mock'
+            ? "The mock provider runs offline and returns deterministic results. Useful for testing."
+            : "Settings and key are stored only in this browser."}
+        </p>
+
+        {testStatus && (
+          <div className={`text-xs p-2 rounded-lg border ${testStatus.ok ? 'bg-emerald-900/20 border-emerald-500/40 text-emerald-300' : 'bg-red-900/20 border-red-500/50 text-red-200'}`}>
+            {testStatus.message}
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+          >
+            {isTesting ? <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full"/> : <PlugZap size={16} />}
+            Test
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+          >
+            <Check size={16} />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
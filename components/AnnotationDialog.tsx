@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { X, Highlighter, Bookmark, Check } from 'lucide-react';
+import { Annotation, AnnotationKind } from '../types';
+import { ANNOTATION_KINDS } from '../services/annotations';
+
+interface AnnotationDialogProps {
+  annotation: Annotation;
+  onSave: (annotation: Annotation) => void;
+  onClose: () => void;
+}
+
+// Confirms a new highlight or bookmark and takes an optional note
+const AnnotationDialog: React.FC<AnnotationDialogProps> = ({ annotation, onSave, onClose }) => {
+  const [kind, setKind] = useState<AnnotationKind>(annotation.kind);
+  const [note, setNote] = useState(annotation.note);
+
+  const save = () => onSave({ ...annotation, kind, note: note.trim() });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            {kind === 'highlight' ? <Highlighter size={20} className="text-blue-400" /> : <Bookmark size={20} className="text-blue-400" />}
+            New {ANNOTATION_KINDS[kind].toLowerCase()}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(ANNOTATION_KINDS) as AnnotationKind[]).map(id => (
+            <button
+              key={id}
+              onClick={() => setKind(id)}
+              className={`px-2 py-2 rounded-lg text-xs transition-colors ${
+                kind === id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700 border border-slate-700'
+              }`}
+            >
+              {ANNOTATION_KINDS[id]}
+            </button>
+          ))}
+        </div>
+
+        <blockquote className="max-h-40 overflow-y-auto border-l-2 border-amber-400/60 pl-3 text-sm leading-relaxed text-slate-300">
+          {annotation.quote}
+        </blockquote>
+
+        <textarea
+          autoFocus
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) save();
+          }}
+          placeholder="Note (optional)"
+          rows={3}
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60"
+        />
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+            title="Save (Ctrl+Enter)"
+          >
+            <Check size={16} />
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationDialog;
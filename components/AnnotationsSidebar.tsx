@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { X, Bookmark, Highlighter, Trash2, FileDown, CornerDownRight } from 'lucide-react';
+import { Annotation } from '../types';
+import { ANNOTATION_KINDS } from '../services/annotations';
+
+interface AnnotationsSidebarProps {
+  annotations: Annotation[];
+  currentIndex: number;
+  wordCount: number;
+  onJump: (annotation: Annotation) => void;
+  onUpdate: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+  onExport: (format: 'md' | 'json') => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS = { highlight: Highlighter, bookmark: Bookmark };
+
+// Notes save when the field loses focus, so typing never writes on every key
+const NoteField: React.FC<{ annotation: Annotation; onUpdate: (annotation: Annotation) => void }> = ({ annotation, onUpdate }) => {
+  const [note, setNote] = useState(annotation.note);
+  return (
+    <textarea
+      value={note}
+      onChange={(e) => setNote(e.target.value)}
+      onBlur={() => note !== annotation.note && onUpdate({ ...annotation, note })}
+      placeholder="Add a note…"
+      rows={note ? 2 : 1}
+      className="w-full bg-slate-900/60 border border-slate-700/60 rounded-md px-2 py-1 text-xs text-slate-300 placeholder:text-slate-600 resize-y focus:outline-none focus:border-blue-500/60"
+    />
+  );
+};
+
+const AnnotationsSidebar: React.FC<AnnotationsSidebarProps> = ({
+  annotations,
+  currentIndex,
+  wordCount,
+  onJump,
+  onUpdate,
+  onDelete,
+  onExport,
+  onClose,
+}) => (
+  <div className="fixed inset-y-0 right-0 z-40 w-full max-w-sm bg-slate-800 border-l border-slate-700 shadow-2xl flex flex-col">
+    <div className="flex items-center justify-between p-4 border-b border-slate-700">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+        <Highlighter size={20} className="text-blue-400" />
+        Highlights
+      </h2>
+      <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+        <X size={20} />
+      </button>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3">
+      {annotations.length === 0 && (
+        <p className="text-sm text-slate-500">
+          Nothing saved yet. Press <span className="font-mono text-slate-300">H</span> to highlight the current sentence or{' '}
+          <span className="font-mono text-slate-300">B</span> to bookmark it.
+        </p>
+      )}
+      {annotations.map(annotation => {
+        const Icon = KIND_ICONS[annotation.kind];
+        const isHere = currentIndex >= annotation.startIndex && currentIndex < annotation.endIndex;
+        return (
+          <div
+            key={annotation.id}
+            className={`flex flex-col gap-2 p-3 rounded-xl border ${isHere ? 'border-blue-500/60 bg-blue-600/10' : 'border-slate-700 bg-slate-900/50'}`}
+          >
+            <div className="flex items-center gap-2 text-xs text-slate-500">
+              <Icon size={14} className={annotation.kind === 'highlight' ? 'text-amber-300' : 'text-blue-300'} />
+              <span className="flex-1 truncate">
+                {ANNOTATION_KINDS[annotation.kind]} · {wordCount > 0 ? Math.round((annotation.startIndex / wordCount) * 100) : 0}%
+                {annotation.chapterTitle && ` · ${annotation.chapterTitle}`}
+              </span>
+              <button onClick={() => onJump(annotation)} className="p-1 hover:text-white rounded" title="Jump here">
+                <CornerDownRight size={14} />
+              </button>
+              <button onClick={() => onDelete(annotation)} className="p-1 hover:text-red-400 rounded" title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <button
+              onClick={() => onJump(annotation)}
+              className={`text-left text-sm leading-relaxed line-clamp-4 ${annotation.kind === 'highlight' ? 'text-amber-100/90' : 'text-slate-300'}`}
+            >
+              {annotation.quote}
+            </button>
+            <NoteField annotation={annotation} onUpdate={onUpdate} />
+          </div>
+        );
+      })}
+    </div>
+
+    <div className="flex gap-2 p-4 border-t border-slate-700">
+      {(['md', 'json'] as const).map(format => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={annotations.length === 0}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-900 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+        >
+          <FileDown size={14} />
+          {format === 'md' ? 'Markdown' : 'JSON'}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default AnnotationsSidebar;
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { Search, CornerDownLeft } from 'lucide-react';
+import KeyCombo from './KeyCombo';
+import { Chapter } from '../types';
+import { KeyBindings, ReaderAction, READER_ACTIONS } from '../services/keyBindings';
+
+interface CommandPaletteProps {
+  bindings: KeyBindings;
+  chapters: Chapter[];
+  wordCount: number;
+  onAction: (action: ReaderAction) => void;
+  onSeek: (wordIndex: number) => void;
+  onClose: () => void;
+}
+
+interface Command {
+  key: string;
+  label: string;
+  hint?: React.ReactNode;
+  run: () => void;
+}
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ bindings, chapters, wordCount, onAction, onSeek, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+
+  const commands = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const result: Command[] = [];
+
+    // "50%" / "go to 50 %" jumps by percentage, a bare number ("1200") to that word
+    const percent = /^(?:go ?to\s*)?(\d+(?:\.\d+)?)\s*%$/.exec(q);
+    const wordNumber = /^(?:go ?to\s*)?(?:word\s*)?(\d+)$/.exec(q);
+    if (percent) {
+      const p = Math.min(100, Number(percent[1]));
+      result.push({ key: 'percent', label: `Go to ${p}%`, run: () => onSeek(Math.floor((p / 100) * wordCount)) });
+    } else if (wordNumber) {
+      const n = Math.max(1, Math.min(wordCount, Number(wordNumber[1])));
+      result.push({ key: 'word', label: `Go to word ${n} of ${wordCount}`, run: () => onSeek(n - 1) });
+    }
+
+    READER_ACTIONS.filter(a => a.id !== 'commandPalette' && a.label.toLowerCase().includes(q)).forEach(a => {
+      result.push({ key: a.id, label: a.label, hint: <KeyCombo combo={bindings[a.id]} />, run: () => onAction(a.id) });
+    });
+
+    chapters
+      .filter(c => c.title.toLowerCase().includes(q) || (q.length > 0 && 'chapter'.startsWith(q)))
+      .forEach((c, i) => {
+        result.push({ key: `chapter-${i}`, label: `Chapter: ${c.title}`, run: () => onSeek(c.startIndex) });
+      });
+
+    if (!q) result.unshift({ key: 'hint', label: 'Type a number to go to a word, or 50% for a position', run: () => {} });
+    return result;
+  }, [query, bindings, chapters, wordCount, onAction, onSeek]);
+
+  const runCommand = (command: Command | undefined) => {
+    if (!command || command.key === 'hint') return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(s => Math.min(commands.length - 1, s + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(s => Math.max(0, s - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(commands[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 backdrop-blur-sm p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-slate-700">
+          <Search size={18} className="text-slate-500" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command, word number or percentage…"
+            className="flex-1 bg-transparent py-4 text-slate-200 placeholder:text-slate-600 focus:outline-none"
+          />
+        </div>
+        <ul className="max-h-80 overflow-y-auto py-2">
+          {commands.map((command, i) => (
+            <li key={command.key}>
+              <button
+                onMouseEnter={() => setSelected(i)}
+                onClick={() => runCommand(command)}
+                className={`w-full flex items-center justify-between gap-4 px-4 py-2 text-left text-sm transition-colors ${
+                  command.key === 'hint' ? 'text-slate-500 cursor-default' : i === selected ? 'bg-blue-600/20 text-white' : 'text-slate-300'
+                }`}
+              >
+                <span className="truncate">{command.label}</span>
+                {command.hint || (i === selected && command.key !== 'hint' && <CornerDownLeft size={14} className="text-slate-500" />)}
+              </button>
+            </li>
+          ))}
+          {commands.length === 0 && <li className="px-4 py-6 text-center text-sm text-slate-500">No matching commands</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+import { TextDirection, UNSPACED_CHAR } from '../services/language';
+
+interface ContextPeekProps {
+  words: string[];
+  start: number; // First word shown
+  end: number; // One past the last word shown
+  highlightStart: number; // Current chunk
+  highlightLength: number;
+  direction?: TextDirection;
+  onSeek: (wordIndex: number) => void;
+}
+
+// Surrounding text shown while paused, so the reader can find their place in the argument
+const ContextPeek: React.FC<ContextPeekProps> = ({ words, start, end, highlightStart, highlightLength, direction = 'ltr', onSeek }) => {
+  const highlightRef = useRef<HTMLSpanElement | null>(null);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [highlightStart]);
+
+  const highlightEnd = highlightStart + highlightLength;
+
+  return (
+    <div dir={direction} className="w-full max-w-2xl max-h-40 overflow-y-auto bg-slate-900/80 border border-slate-700/50 rounded-xl px-5 py-4 text-sm leading-relaxed text-slate-400 backdrop-blur-sm">
+      {start > 0 && <span className="text-slate-600">… </span>}
+      {words.slice(start, end).map((word, i) => {
+        const index = start + i;
+        const isCurrent = index >= highlightStart && index < highlightEnd;
+        return (
+          <React.Fragment key={index}>
+            <span
+              ref={index === highlightStart ? highlightRef : undefined}
+              onClick={() => onSeek(index)}
+              className={`cursor-pointer rounded px-0.5 -mx-0.5 transition-colors ${
+                isCurrent ? 'bg-blue-600/30 text-white' : 'hover:bg-slate-700 hover:text-slate-200'
+              }`}
+              title="Continue from here"
+            >
+              {word}
+            </span>
+            {/* Chinese, Japanese and Thai words are not separated by spaces */}
+            {UNSPACED_CHAR.test(word) && UNSPACED_CHAR.test(words[index + 1] || '') ? '' : ' '}
+          </React.Fragment>
+        );
+      })}
+      {end < words.length && <span className="text-slate-600">…</span>}
+    </div>
+  );
+};
+
+export default ContextPeek;
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Download, BarChart3 } from 'lucide-react';
+import { ReadingSession } from '../types';
+import { listSessions } from '../services/sessionLog';
+import {
+  summarizeSessions,
+  groupByDay,
+  wpmHistogram,
+  sessionsToCsv,
+  sessionsToJson,
+  formatDuration,
+} from '../services/analytics';
+import { downloadFile, dateStamp } from '../services/download';
+
+interface DashboardProps {
+  onBack: () => void;
+}
+
+const TREND_SESSIONS = 30;
+
+interface BarChartProps {
+  values: number[];
+  labels: string[];
+  color: string;
+  formatValue?: (value: number) => string;
+}
+
+// Minimal SVG bar chart; a chart library would outweigh the rest of the app
+const BarChart: React.FC<BarChartProps> = ({ values, labels, color, formatValue = String }) => {
+  const max = Math.max(1, ...values);
+  return (
+    <div className="flex items-end gap-1 h-40">
+      {values.map((value, i) => (
+        <div key={i} className="flex-1 min-w-0 h-full flex flex-col justify-end items-center gap-1 group">
+          <span className="text-[10px] font-mono text-slate-500 opacity-0 group-hover:opacity-100 transition-opacity">
+            {formatValue(value)}
+          </span>
+          <div className={`w-full rounded-t ${color}`} style={{ height: `${(value / max) * 100}%`, minHeight: value > 0 ? 2 : 0 }} />
+          <span className="text-[10px] text-slate-600 truncate w-full text-center">{labels[i]}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-800/60 border border-slate-700/50 rounded-xl p-4">
+    <div className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">{label}</div>
+    <div className="text-2xl font-mono text-white mt-1">{value}</div>
+  </div>
+);
+
+const Dashboard: React.FC<DashboardProps> = ({ onBack }) => {
+  const [sessions, setSessions] = useState<ReadingSession[] | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => {
+        console.error("Error loading sessions:", error);
+        setSessions([]);
+      });
+  }, []);
+
+  const totals = useMemo(() => summarizeSessions(sessions || []), [sessions]);
+  const days = useMemo(() => groupByDay(sessions || []).slice(-TREND_SESSIONS), [sessions]);
+  const histogram = useMemo(() => wpmHistogram(sessions || []), [sessions]);
+  const recent = (sessions || []).slice(-TREND_SESSIONS);
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!sessions) return;
+    const name = `speedyreader-sessions-${dateStamp()}.${format}`;
+    if (format === 'csv') downloadFile(name, sessionsToCsv(sessions), 'text/csv');
+    else downloadFile(name, sessionsToJson(sessions), 'application/json');
+  };
+
+  return (
+    <div className="flex flex-col h-full max-w-4xl mx-auto p-4 md:p-8 gap-6">
+      <div className="flex justify-between items-center">
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft size={20} />
+          <span>Back</span>
+        </button>
+        <div className="flex gap-2">
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!sessions || sessions.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+            >
+              <Download size={14} />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <h1 className="flex items-center gap-3 text-2xl font-bold text-white">
+        <BarChart3 className="text-blue-400" />
+        Reading progress
+      </h1>
+
+      {sessions === null ? (
+        <div className="flex justify-center py-16">
+          <div className="animate-spin h-8 w-8 border-2 border-blue-400 border-t-transparent rounded-full"/>
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-slate-500 text-center py-16">No reading sessions yet. Finish or leave a reading session to see it here.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <StatCard label="Words read" value={totals.wordsRead.toLocaleString()} />
+            <StatCard label="Sessions" value={String(totals.sessionCount)} />
+            <StatCard label="Reading time" value={formatDuration(totals.activeMs)} />
+            <StatCard label="Average WPM" value={String(totals.averageWpm)} />
+          </div>
+
+          <section className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-4">
+            <h2 className="text-sm font-semibold text-slate-300 mb-4">Speed trend (last {recent.length} sessions, WPM)</h2>
+            <BarChart
+              values={recent.map(s => s.averageWpm)}
+              labels={recent.map(s => new Date(s.startedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }))}
+              color="bg-blue-500/70"
+            />
+          </section>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <section className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-4">
+              <h2 className="text-sm font-semibold text-slate-300 mb-4">Words read per day</h2>
+              <BarChart
+                values={days.map(d => d.wordsRead)}
+                labels={days.map(d => d.day.slice(5))}
+                color="bg-emerald-500/70"
+                formatValue={v => v.toLocaleString()}
+              />
+            </section>
+            <section className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-4">
+              <h2 className="text-sm font-semibold text-slate-300 mb-4">Speed distribution (sessions per WPM range)</h2>
+              <BarChart
+                values={histogram.map(b => b.count)}
+                labels={histogram.map(b => String(b.from))}
+                color="bg-amber-500/70"
+              />
+            </section>
+          </div>
+
+          <section className="bg-slate-800/40 border border-slate-700/50 rounded-xl p-4 overflow-x-auto">
+            <h2 className="text-sm font-semibold text-slate-300 mb-3">Recent sessions</h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-slate-500">
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Document</th>
+                  <th className="py-2 pr-4 text-right">Words</th>
+                  <th className="py-2 pr-4 text-right">WPM</th>
+                  <th className="py-2 pr-4 text-right">Set</th>
+                  <th className="py-2 pr-4 text-right">Pauses</th>
+                  <th className="py-2 text-right">Effective</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...recent].reverse().map(s => (
+                  <tr key={s.id} className="border-t border-slate-700/50 text-slate-300">
+                    <td className="py-2 pr-4 whitespace-nowrap text-slate-400">{new Date(s.startedAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}</td>
+                    <td className="py-2 pr-4 max-w-[12rem] truncate">{s.documentTitle}</td>
+                    <td className="py-2 pr-4 text-right font-mono">{s.wordsRead}</td>
+                    <td className="py-2 pr-4 text-right font-mono">{s.averageWpm}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-slate-500">{s.settings.wpm}</td>
+                    <td className="py-2 pr-4 text-right font-mono text-slate-500">{s.pauseCount}</td>
+                    <td className="py-2 text-right font-mono text-emerald-300">{s.effectiveWpm ?? '–'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { X, GitCompare, Check } from 'lucide-react';
+import { DiffSegment, diffText, applyDiff, countChanges } from '../services/textDiff';
+
+interface DiffReviewProps {
+  title: string; // e.g. "Summary"
+  before: string;
+  after: string;
+  onApply: (text: string) => void;
+  onClose: () => void;
+}
+
+// Unchanged text longer than this is shortened to its ends around each change
+const CONTEXT_CHARS = 160;
+
+const EqualText: React.FC<{ text: string; isFirst: boolean; isLast: boolean }> = ({ text, isFirst, isLast }) => {
+  if (text.length <= CONTEXT_CHARS * 2) return <span className="text-slate-400">{text}</span>;
+  return (
+    <span className="text-slate-400">
+      {!isFirst && text.slice(0, CONTEXT_CHARS)}
+      <span className="block text-center text-xs text-slate-600 my-1">⋯</span>
+      {!isLast && text.slice(-CONTEXT_CHARS)}
+    </span>
+  );
+};
+
+const DiffReview: React.FC<DiffReviewProps> = ({ title, before, after, onApply, onClose }) => {
+  const segments = useMemo<DiffSegment[]>(() => diffText(before, after), [before, after]);
+  const total = countChanges(segments);
+  // Every change starts accepted
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+
+  const toggle = (id: number) =>
+    setRejected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const rejectAll = () =>
+    setRejected(new Set(segments.flatMap(s => (s.type === 'change' ? [s.id] : []))));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <GitCompare size={20} className="text-blue-400" />
+            Review: {title}
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+          <span>
+            {total === 0 ? 'No changes.' : `${total - rejected.size} of ${total} changes accepted · click a change to toggle it`}
+          </span>
+          <span className="flex gap-1">
+            <button onClick={() => setRejected(new Set())} className="px-2 py-1 rounded-md hover:bg-slate-700 hover:text-white transition-colors">
+              Accept all
+            </button>
+            <button onClick={rejectAll} className="px-2 py-1 rounded-md hover:bg-slate-700 hover:text-white transition-colors">
+              Reject all
+            </button>
+          </span>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto bg-slate-900 border border-slate-700 rounded-xl p-4 text-sm leading-relaxed whitespace-pre-wrap">
+          {segments.map((segment, i) =>
+            segment.type === 'equal' ? (
+              <EqualText key={i} text={segment.text} isFirst={i === 0} isLast={i === segments.length - 1} />
+            ) : (
+              <button
+                key={i}
+                onClick={() => toggle(segment.id)}
+                className="inline text-left rounded hover:ring-1 hover:ring-slate-500 whitespace-pre-wrap"
+                title={rejected.has(segment.id) ? 'Rejected: click to accept' : 'Accepted: click to reject'}
+              >
+                {rejected.has(segment.id) ? (
+                  <>
+                    <span className="text-slate-200">{segment.removed}</span>
+                    {segment.added && <span className="text-slate-600 line-through">{segment.added}</span>}
+                  </>
+                ) : (
+                  <>
+                    {segment.removed && <span className="text-red-300/70 line-through bg-red-900/20">{segment.removed}</span>}
+                    <span className="text-emerald-300 bg-emerald-900/20">{segment.added}</span>
+                  </>
+                )}
+              </button>
+            )
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+          >
+            Discard
+          </button>
+          <button
+            onClick={() => onApply(applyDiff(segments, rejected))}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+          >
+            <Check size={16} />
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiffReview;
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { X, Zap, Check } from 'lucide-react';
+import { FlowLanguage, FlowRuleId, FlowSettings } from '../types';
+import { FLOW_RULES, flowLanguageOf, optimizeFlow, loadFlowSettings, saveFlowSettings } from '../services/flowOptimizer';
+
+interface FlowOptimizerPanelProps {
+  text: string;
+  onApply: (text: string, refineWithAI: boolean) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60";
+
+const LANGUAGE_LABELS: Record<FlowLanguage, string> = { en: 'English', pt: 'Portuguese' };
+
+// The preview lists this many replacements; the counts cover all of them
+const PREVIEW_LIMIT = 200;
+
+const FlowOptimizerPanel: React.FC<FlowOptimizerPanelProps> = ({ text, onApply, onClose }) => {
+  const [settings, setSettings] = useState<FlowSettings>(loadFlowSettings);
+
+  const detected = useMemo(() => flowLanguageOf(text), [text]);
+  const language = settings.language === 'auto' ? detected : settings.language;
+  const result = useMemo(() => optimizeFlow(text, language, settings.rules), [text, language, settings.rules]);
+
+  const counts = useMemo(() => {
+    const byRule: Partial<Record<FlowRuleId, number>> = {};
+    result.changes.forEach(c => (byRule[c.rule] = (byRule[c.rule] || 0) + 1));
+    return byRule;
+  }, [result]);
+
+  const update = (patch: Partial<FlowSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const toggleRule = (id: FlowRuleId) => update({ rules: { ...settings.rules, [id]: !settings.rules[id] } });
+
+  const handleApply = () => {
+    saveFlowSettings(settings);
+    onApply(result.text, settings.refineWithAI);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Zap size={20} className="text-blue-400" />
+            Optimize flow
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Spells out numbers, symbols and abbreviations on this device. Nothing else in the text changes.
+        </p>
+
+        <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Language
+          <select
+            value={settings.language}
+            onChange={(e) => update({ language: e.target.value as FlowSettings['language'] })}
+            className={inputClass}
+          >
+            <option value="auto">Detect ({LANGUAGE_LABELS[detected]})</option>
+            {(Object.keys(LANGUAGE_LABELS) as FlowLanguage[]).map(id => (
+              <option key={id} value={id}>{LANGUAGE_LABELS[id]}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {FLOW_RULES.map(rule => (
+            <label
+              key={rule.id}
+              className="flex items-start gap-2 p-2 rounded-lg bg-slate-900/50 border border-slate-700 cursor-pointer"
+              title={rule.example}
+            >
+              <input
+                type="checkbox"
+                checked={settings.rules[rule.id]}
+                onChange={() => toggleRule(rule.id)}
+                className="mt-0.5 w-4 h-4 accent-blue-500"
+              />
+              <span className="flex-1 min-w-0">
+                <span className="flex justify-between text-sm text-slate-200">
+                  {rule.label}
+                  <span className="font-mono text-xs text-slate-500">{counts[rule.id] || 0}</span>
+                </span>
+                <span className="block text-xs text-slate-500 truncate">{rule.example}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {/* Preview: every replacement the enabled rules would make */}
+        <div className="flex flex-col gap-1.5">
+          <span className="text-xs text-slate-400">
+            {result.changes.length === 0 ? 'Nothing to change.' : `${result.changes.length} changes`}
+          </span>
+          {result.changes.length > 0 && (
+            <ul className="max-h-56 overflow-y-auto flex flex-col gap-1 bg-slate-900 border border-slate-700 rounded-xl p-3 text-sm">
+              {result.changes.slice(0, PREVIEW_LIMIT).map((change, i) => (
+                <li key={i} className="flex flex-wrap items-baseline gap-x-2">
+                  <span className="text-red-300/80 line-through font-mono">{change.from}</span>
+                  <span className="text-slate-600">→</span>
+                  <span className="text-emerald-300">{change.to}</span>
+                </li>
+              ))}
+              {result.changes.length > PREVIEW_LIMIT && (
+                <li className="text-xs text-slate-500">and {result.changes.length - PREVIEW_LIMIT} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+
+        <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+          <span>
+            Refine with AI afterwards
+            <span className="block text-xs text-slate-500">Sends the result to your AI provider for anything the rules missed.</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={settings.refineWithAI}
+            onChange={(e) => update({ refineWithAI: e.target.checked })}
+            className="w-4 h-4 accent-blue-500"
+          />
+        </label>
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={result.changes.length === 0 && !settings.refineWithAI}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-lg text-sm text-white font-medium transition-colors"
+          >
+            <Check size={16} />
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FlowOptimizerPanel;
@@ -1,63 +1,252 @@
-import React, { useState } from 'react';
-import { Play, Sparkles, FileText, Eraser, BookOpen, Zap } from 'lucide-react';
-import { summarizeText, generatePracticeText, optimizeForSpeedReading } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Sparkles, FileText, Eraser, BookOpen, Zap, Upload, Settings, BarChart3, Undo2, Redo2, ListPlus } from 'lucide-react';
+import { summarizeText, generatePracticeText, optimizeForSpeedReading } from '../services/aiService';
+import { importDocument, SUPPORTED_EXTENSIONS } from '../services/documentImporter';
+import LibraryList from './LibraryList';
+import AISettingsPanel from './AISettingsPanel';
+import JobProgress from './JobProgress';
+import FlowOptimizerPanel from './FlowOptimizerPanel';
+import DiffReview from './DiffReview';
+import PracticePanel from './PracticePanel';
+import QueueList from './QueueList';
+import { TextPart, createParts, runParts } from '../services/longTextProcessor';
+import {
+  TextHistory,
+  TYPING_LABEL,
+  createHistory,
+  currentText,
+  recordVersion,
+  goToVersion,
+  undo,
+  redo,
+  canUndo,
+  canRedo,
+} from '../services/textHistory';
+import { scoreReadability, READING_LEVELS } from '../services/readability';
+import { activeProfile, loadProfiles } from '../services/profiles';
+import { addToQueue, queueEntries } from '../services/readingQueue';
+import { ImportedDocument, LibraryDocument, PracticeOptions, ReadingQueue } from '../types';
+
+type LongTextTask = 'summarize' | 'optimize';
+
+interface LongTextJob {
+  task: LongTextTask;
+  source: string; // The text the job started from, for the review diff
+  parts: TextPart[];
+}
+
+interface PendingReview {
+  task: LongTextTask;
+  before: string;
+  after: string;
+}
+
+const TASK_LABELS: Record<LongTextTask, string> = {
+  summarize: 'Summarizing',
+  optimize: 'Optimizing',
+};
+
+// Names of the versions AI results create in the edit history
+const VERSION_LABELS: Record<LongTextTask, string> = {
+  summarize: 'Summary',
+  optimize: 'AI optimization',
+};
+
+// Optimized text replaces its source in place; a summary only grows from finished parts
+const assembleJobText = ({ task, parts }: LongTextJob) =>
+  parts
+    .map(p => (p.status === 'done' ? p.result : task === 'optimize' ? p.source : ''))
+    .filter(Boolean)
+    .join('\n\n');
 
 interface InputAreaProps {
-  onStart: (text: string) => void;
+  onStart: (text: string, imported: ImportedDocument | null) => void;
   initialText: string;
+  documents: LibraryDocument[];
+  activeDocumentId: string | null;
+  onOpenDocument: (doc: LibraryDocument) => void;
+  onRenameDocument: (doc: LibraryDocument, title: string) => void;
+  onDeleteDocument: (doc: LibraryDocument) => void;
+  onNewDocument: () => void;
+  onOpenDashboard: () => void;
+  queue: ReadingQueue;
+  onAddToQueue: (text: string, imported: ImportedDocument | null) => void;
+  onQueueChange: (queue: ReadingQueue) => void;
+  onStartQueue: (itemId: string) => void;
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onStart, initialText }) => {
-  const [text, setText] = useState(initialText);
+const InputArea: React.FC<InputAreaProps> = ({
+  onStart,
+  initialText,
+  documents,
+  activeDocumentId,
+  onOpenDocument,
+  onRenameDocument,
+  onDeleteDocument,
+  onNewDocument,
+  onOpenDashboard,
+  queue,
+  onAddToQueue,
+  onQueueChange,
+  onStartQueue,
+}) => {
+  const [history, setHistory] = useState<TextHistory>(() => createHistory(initialText));
+  const text = currentText(history);
+  // Set when the text came from a file, so it is saved as a new library entry
+  const [imported, setImported] = useState<ImportedDocument | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [showFlowOptimizer, setShowFlowOptimizer] = useState(false);
+  const [showPractice, setShowPractice] = useState(false);
+  const [job, setJob] = useState<LongTextJob | null>(null);
+  const [review, setReview] = useState<PendingReview | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const handleSummarize = async () => {
-    if (!text) return;
-    setIsGenerating(true);
+  // Leaving the editor cancels any AI job still in flight
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Every change to the text goes through the history so it can be undone
+  const setText = (value: string, label: string) => setHistory(prev => recordVersion(prev, value, label));
+
+  const handleUndo = () => {
+    setHistory(undo);
+    setJob(null);
+  };
+
+  const handleRedo = () => {
+    setHistory(redo);
+    setJob(null);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setIsImporting(true);
     setError(null);
     try {
-      const summary = await summarizeText(text);
-      setText(summary);
+      const doc = await importDocument(file);
+      setImported(doc);
+      setJob(null);
+      setText(doc.text, `Imported ${file.name}`);
     } catch (e) {
-      setError("Failed to summarize. Check API key.");
+      setError(e instanceof Error ? e.message : "Failed to import file.");
     } finally {
-      setIsGenerating(false);
+      setIsImporting(false);
     }
   };
 
-  const handleOptimize = async () => {
-    if (!text) return;
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleImport(e.dataTransfer.files[0]);
+  };
+
+  // Long input is processed in paragraph-aligned parts; the result is reviewed as a diff before it replaces the text
+  const runJob = async (initial: LongTextJob) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
     setError(null);
-    try {
-      const optimized = await optimizeForSpeedReading(text);
-      setText(optimized);
-    } catch (e) {
-      setError("Failed to optimize. Check API key.");
-    } finally {
-      setIsGenerating(false);
+    setJob(initial);
+
+    const worker = initial.task === 'summarize' ? summarizeText : optimizeForSpeedReading;
+    const parts = await runParts(initial.parts, worker, {
+      signal: controller.signal,
+      onUpdate: (updated) => setJob({ ...initial, parts: updated }),
+    });
+
+    abortRef.current = null;
+    setIsGenerating(false);
+    if (controller.signal.aborted) return;
+    const failed = parts.filter(p => p.status === 'failed');
+    if (failed.length === 0) {
+      setJob(null);
+    } else {
+      setError(
+        `Failed to ${initial.task} ${failed.length} of ${parts.length} parts. Check AI settings, then retry them, or apply what finished.`
+      );
+    }
+    // Whatever finished can be reviewed. Retrying the failed parts is only possible
+    // until the review is applied; dismissing it keeps the job for a retry
+    if (parts.some(p => p.status === 'done')) {
+      setReview({ task: initial.task, before: initial.source, after: assembleJobText({ ...initial, parts }) });
     }
   };
 
-  const handleGenerateStory = async () => {
+  const handleApplyReview = (reviewed: string) => {
+    if (!review) return;
+    setText(reviewed, VERSION_LABELS[review.task]);
+    setReview(null);
+    // The parts no longer match the text, so a retry would undo the review
+    setJob(null);
+    setError(null);
+  };
+
+  const handleSummarize = () => {
+    if (!text) return;
+    runJob({ task: 'summarize', source: text, parts: createParts(text) });
+  };
+
+  // The offline rules run first; the AI pass is optional and only sees their result
+  const handleApplyFlow = (optimized: string, refineWithAI: boolean) => {
+    setShowFlowOptimizer(false);
+    setText(optimized, 'Optimize flow');
+    setJob(null);
+    if (refineWithAI) runJob({ task: 'optimize', source: optimized, parts: createParts(optimized) });
+  };
+
+  const handleRetryJob = () => {
+    if (job) runJob(job);
+  };
+
+  const handleCancelJob = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleGenerateStory = async (options: PracticeOptions) => {
+    setShowPractice(false);
     setIsGenerating(true);
     setError(null);
     try {
-      const story = await generatePracticeText("The Future of Human Evolution");
-      setText(story);
+      const story = await generatePracticeText(options);
+      setJob(null);
+      setText(story, 'Practice text');
     } catch (e) {
-      setError("Failed to generate text. Check API key.");
+      setError("Failed to generate text. Check AI settings.");
     } finally {
       setIsGenerating(false);
     }
   };
 
   const wordCount = text.trim() ? text.trim().split(/\s+/).length : 0;
+  // Suggested speeds scale the active profile's own speed
+  const [baseWpm] = useState(() => activeProfile(loadProfiles()).reader.wpm);
+  const readability = useMemo(() => scoreReadability(text, undefined, baseWpm), [text, baseWpm]);
+  const entries = useMemo(() => queueEntries(queue, documents), [queue, documents]);
+  const currentQueueEntry = entries.find(entry => entry.id === queue.currentId);
 
   return (
     <div className="flex flex-col h-full max-w-3xl mx-auto p-4 md:p-8 animate-in fade-in zoom-in duration-300">
-      <div className="text-center mb-8">
+      <div className="relative text-center mb-8">
+        <div className="absolute right-0 top-0 flex gap-1">
+          <button
+            onClick={onOpenDashboard}
+            className="p-2 text-slate-500 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            title="Reading progress"
+          >
+            <BarChart3 size={20} />
+          </button>
+          <button
+            onClick={() => setShowAISettings(true)}
+            className="p-2 text-slate-500 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            title="AI settings"
+          >
+            <Settings size={20} />
+          </button>
+        </div>
         <h1 className="text-4xl md:text-5xl font-bold bg-gradient-to-r from-blue-400 via-indigo-400 to-emerald-400 bg-clip-text text-transparent mb-2">
           SpeedyReader AI
         </h1>
@@ -67,18 +256,96 @@ const InputArea: React.FC<InputAreaProps> = ({ onStart, initialText }) => {
       </div>
 
       <div className="flex-1 flex flex-col gap-4">
-        <div className="relative flex-1 bg-slate-800 rounded-xl border border-slate-700 overflow-hidden shadow-xl ring-1 ring-white/5 focus-within:ring-blue-500/50 transition-all">
+        <div
+          className={`relative flex-1 bg-slate-800 rounded-xl border overflow-hidden shadow-xl ring-1 ring-white/5 focus-within:ring-blue-500/50 transition-all ${isDragging ? 'border-blue-400 ring-blue-500/50' : 'border-slate-700'}`}
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
           <textarea
             className="w-full h-full p-6 bg-transparent text-slate-200 resize-none focus:outline-none transition-all text-lg leading-relaxed placeholder:text-slate-600 font-sans"
-            placeholder="Paste your text here to begin speed reading..."
+            placeholder="Paste your text or drop a PDF, EPUB, DOCX, HTML or Markdown file here..."
             value={text}
-            onChange={(e) => setText(e.target.value)}
+            readOnly={!!job && isGenerating}
+            onChange={(e) => {
+              setText(e.target.value, TYPING_LABEL);
+              // Manual edits invalidate the parts of an unfinished job
+              setJob(null);
+            }}
+            onKeyDown={(e) => {
+              if (!(e.ctrlKey || e.metaKey) || isGenerating) return;
+              const key = e.key.toLowerCase();
+              if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                handleUndo();
+              } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                handleRedo();
+              }
+            }}
           />
+          {(isDragging || isImporting) && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-slate-900/80 text-slate-300 pointer-events-none">
+              {isImporting ? <div className="animate-spin h-8 w-8 border-2 border-blue-400 border-t-transparent rounded-full"/> : <Upload size={32} className="text-blue-400"/>}
+              <span className="text-sm">{isImporting ? "Importing document..." : "Drop file to import"}</span>
+            </div>
+          )}
+          <div className="absolute bottom-4 left-4 flex items-center gap-1 text-xs bg-slate-900/90 p-1 rounded-full text-slate-400 border border-slate-700/50">
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo(history) || isGenerating}
+              className="p-1 rounded-full hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={14} />
+            </button>
+            <button
+              onClick={handleRedo}
+              disabled={!canRedo(history) || isGenerating}
+              className="p-1 rounded-full hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={14} />
+            </button>
+            {history.versions.length > 1 && (
+              <select
+                value={history.index}
+                onChange={(e) => {
+                  setHistory(prev => goToVersion(prev, Number(e.target.value)));
+                  setJob(null);
+                }}
+                disabled={isGenerating}
+                className="bg-transparent text-slate-400 pr-1 focus:outline-none cursor-pointer"
+                title="Version history"
+              >
+                {history.versions.map((version, i) => (
+                  <option key={i} value={i}>
+                    {i + 1}. {version.label} · {new Date(version.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
           <div className="absolute bottom-4 right-4 text-xs bg-slate-900/90 px-3 py-1.5 rounded-full text-slate-400 border border-slate-700/50">
             {wordCount} words
+            {readability && (
+              <span title={`Reading ease ${readability.ease} · ${readability.syllablesPerWord.toFixed(2)} syllables per word`}>
+                {' · '}{READING_LEVELS.find(l => l.id === readability.level)?.label} · ~{readability.recommendedWpm} WPM
+              </span>
+            )}
           </div>
         </div>
 
+        {job && (
+          <JobProgress
+            label={TASK_LABELS[job.task]}
+            parts={job.parts}
+            isRunning={isGenerating}
+            onCancel={handleCancelJob}
+            onRetry={handleRetryJob}
+          />
+        )}
+
         {error && (
           <div className="bg-red-900/20 border border-red-500/50 text-red-200 p-3 rounded-lg text-sm text-center">
             {error}
@@ -98,7 +365,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onStart, initialText }) => {
                     <span>Summarize</span>
                 </button>
                 <button
-                    onClick={handleOptimize}
+                    onClick={() => setShowFlowOptimizer(true)}
                     disabled={isGenerating || !text}
                     className="flex flex-col md:flex-row items-center justify-center gap-2 px-3 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-slate-300 transition-all font-medium text-xs md:text-sm border border-slate-700 hover:border-blue-400/30 group"
                     title="Convert numbers and symbols to text for smoother reading (Keep 100% content)"
@@ -107,10 +374,10 @@ const InputArea: React.FC<InputAreaProps> = ({ onStart, initialText }) => {
                     <span>Optimize Flow</span>
                 </button>
                 <button
-                    onClick={handleGenerateStory}
+                    onClick={() => setShowPractice(true)}
                     disabled={isGenerating}
                     className="flex flex-col md:flex-row items-center justify-center gap-2 px-3 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-slate-300 transition-all font-medium text-xs md:text-sm border border-slate-700 hover:border-emerald-400/30 group"
-                    title="Generate a random practice text"
+                    title="Generate a practice text by topic, genre, length and reading level"
                 >
                     <BookOpen size={16} className="text-emerald-400 group-hover:scale-110 transition-transform"/>
                     <span>Practice</span>
@@ -120,14 +387,38 @@ const InputArea: React.FC<InputAreaProps> = ({ onStart, initialText }) => {
             {/* Main Actions */}
             <div className="flex gap-3">
                  <button
-                    onClick={() => setText('')}
-                    className="px-5 py-3 bg-slate-800 hover:bg-red-950/30 hover:text-red-400 border border-slate-700 hover:border-red-500/30 rounded-lg text-slate-400 transition-colors"
+                    onClick={() => {
+                      setText('', 'Cleared');
+                      setImported(null);
+                      setJob(null);
+                      onNewDocument();
+                    }}
+                    disabled={isGenerating}
+                    className="px-5 py-3 disabled:opacity-50 disabled:cursor-not-allowed bg-slate-800 hover:bg-red-950/30 hover:text-red-400 border border-slate-700 hover:border-red-500/30 rounded-lg text-slate-400 transition-colors"
                     title="Clear text"
                 >
                     <Eraser size={20} />
                 </button>
                 <button
-                    onClick={() => onStart(text)}
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                    className="px-5 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed border border-slate-700 hover:border-blue-400/30 rounded-lg text-slate-400 hover:text-blue-300 transition-colors"
+                    title="Import a document (PDF, EPUB, DOCX, HTML, Markdown)"
+                >
+                    <Upload size={20} />
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={SUPPORTED_EXTENSIONS.join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                      handleImport(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                />
+                <button
+                    onClick={() => onStart(text, imported)}
                     disabled={!text}
                     className="flex-1 flex items-center justify-center gap-3 px-6 py-4 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 disabled:cursor-not-allowed rounded-lg text-white font-bold text-lg shadow-lg shadow-blue-900/20 transition-all hover:scale-[1.01] active:scale-[0.99] group"
                 >
@@ -136,10 +427,51 @@ const InputArea: React.FC<InputAreaProps> = ({ onStart, initialText }) => {
                     </div>
                     Start Reading
                 </button>
+                <button
+                    onClick={() => onAddToQueue(text, imported)}
+                    disabled={!text.trim()}
+                    className="px-5 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed border border-slate-700 hover:border-blue-400/30 rounded-lg text-slate-400 hover:text-blue-300 transition-colors"
+                    title="Add to the reading queue and start a new text"
+                >
+                    <ListPlus size={20} />
+                </button>
             </div>
         </div>
       </div>
       
+      {showAISettings && <AISettingsPanel onClose={() => setShowAISettings(false)} />}
+      {review && (
+        <DiffReview
+          title={VERSION_LABELS[review.task]}
+          before={review.before}
+          after={review.after}
+          onApply={handleApplyReview}
+          onClose={() => setReview(null)}
+        />
+      )}
+      {showPractice && <PracticePanel onGenerate={handleGenerateStory} onClose={() => setShowPractice(false)} />}
+      {showFlowOptimizer && (
+        <FlowOptimizerPanel text={text} onApply={handleApplyFlow} onClose={() => setShowFlowOptimizer(false)} />
+      )}
+
+      <QueueList
+        queue={queue}
+        entries={entries}
+        currentPosition={documents.find(doc => doc.id === currentQueueEntry?.documentId)?.position ?? 0}
+        wpm={baseWpm}
+        onChange={onQueueChange}
+        onStart={onStartQueue}
+      />
+
+      <LibraryList
+        documents={documents}
+        activeId={activeDocumentId}
+        onOpen={onOpenDocument}
+        onRename={onRenameDocument}
+        onDelete={onDeleteDocument}
+        onQueue={(doc) => onQueueChange(addToQueue(queue, doc.id))}
+      />
+
       <div className="mt-6 text-center">
           <p className="text-xs text-slate-500/80">
             For best results, relax your gaze and stare directly at the <span className="text-red-500/80 font-bold">red letter</span>. Do not move your eyes.
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Square, RefreshCw } from 'lucide-react';
+import { TextPart } from '../services/longTextProcessor';
+
+interface JobProgressProps {
+  label: string; // e.g. "Summarizing"
+  parts: TextPart[];
+  isRunning: boolean;
+  onCancel: () => void;
+  onRetry: () => void;
+}
+
+const JobProgress: React.FC<JobProgressProps> = ({ label, parts, isRunning, onCancel, onRetry }) => {
+  const done = parts.filter(p => p.status === 'done').length;
+  const failed = parts.filter(p => p.status === 'failed').length;
+
+  return (
+    <div className="bg-slate-800/80 border border-slate-700 rounded-lg p-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+        <span>
+          {isRunning ? `${label}…` : failed > 0 ? `${failed} of ${parts.length} parts did not finish` : 'Done'}{' '}
+          <span className="font-mono text-slate-500">{done}/{parts.length} parts</span>
+        </span>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-red-300 hover:bg-red-950/40 border border-red-500/30 transition-colors"
+          >
+            <Square size={12} fill="currentColor" />
+            Cancel
+          </button>
+        ) : failed > 0 && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-blue-300 hover:bg-blue-950/40 border border-blue-500/30 transition-colors"
+          >
+            <RefreshCw size={12} />
+            Retry failed parts
+          </button>
+        )}
+      </div>
+      {/* One segment per part so failed and running parts are visible at a glance */}
+      <div className="flex gap-0.5 h-1.5">
+        {parts.map((part, i) => (
+          <div
+            key={i}
+            title={part.error}
+            className={`flex-1 rounded-full transition-colors ${
+              part.status === 'done'
+                ? 'bg-emerald-500'
+                : part.status === 'running'
+                  ? 'bg-blue-500 animate-pulse'
+                  : part.status === 'failed'
+                    ? 'bg-red-500'
+                    : 'bg-slate-700'
+            }`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default JobProgress;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { comboKeys } from '../services/keyBindings';
+
+interface KeyComboProps {
+  combo: string;
+}
+
+const KeyCombo: React.FC<KeyComboProps> = ({ combo }) => {
+  const keys = comboKeys(combo);
+  if (keys.length === 0) return <span className="text-xs text-slate-600">Unassigned</span>;
+  return (
+    <span className="inline-flex items-center gap-1">
+      {keys.map((key, i) => (
+        <kbd key={i} className="min-w-[1.5rem] px-1.5 py-0.5 text-center text-xs font-mono text-slate-300 bg-slate-900 border border-slate-600 border-b-2 rounded">
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+};
+
+export default KeyCombo;
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { X, Keyboard, RotateCcw } from 'lucide-react';
+import KeyCombo from './KeyCombo';
+import {
+  KeyBindings,
+  ReaderAction,
+  READER_ACTIONS,
+  DEFAULT_KEY_BINDINGS,
+  eventToCombo,
+  rebind,
+} from '../services/keyBindings';
+
+interface KeyboardHelpProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+const KeyboardHelp: React.FC<KeyboardHelpProps> = ({ bindings, onChange, onClose }) => {
+  // Action waiting for its new key; the next keydown is captured instead of handled
+  const [recording, setRecording] = useState<ReaderAction | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!recording) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      onChange(rebind(bindings, recording, combo));
+      setRecording(null);
+    };
+    // Capture phase, so the Reader's own shortcut handler never sees the key being recorded
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, bindings, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Keyboard size={20} className="text-blue-400" />
+            Keyboard shortcuts
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-500">Click a shortcut to change it, then press the new key. Esc cancels.</p>
+
+        <ul className="flex flex-col">
+          {READER_ACTIONS.map(({ id, label }) => (
+            <li key={id} className="flex items-center justify-between py-1.5 border-b border-slate-700/50 last:border-0">
+              <span className="text-sm text-slate-300">{label}</span>
+              <button
+                onClick={() => setRecording(recording === id ? null : id)}
+                className={`px-2 py-1 rounded-md transition-colors ${recording === id ? 'bg-blue-600/30 ring-1 ring-blue-500' : 'hover:bg-slate-700'}`}
+              >
+                {recording === id ? <span className="text-xs text-blue-300">Press a key…</span> : <KeyCombo combo={bindings[id]} />}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end">
+          <button
+            onClick={() => onChange({ ...DEFAULT_KEY_BINDINGS })}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <RotateCcw size={14} />
+            Restore defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardHelp;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Search, Pencil, Trash2, Check, X, Library, ListPlus } from 'lucide-react';
+import { LibraryDocument } from '../types';
+import { matchesQuery } from '../services/libraryService';
+
+interface LibraryListProps {
+  documents: LibraryDocument[];
+  activeId: string | null;
+  onOpen: (doc: LibraryDocument) => void;
+  onRename: (doc: LibraryDocument, title: string) => void;
+  onDelete: (doc: LibraryDocument) => void;
+  onQueue?: (doc: LibraryDocument) => void;
+}
+
+const formatLastRead = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const LibraryList: React.FC<LibraryListProps> = ({ documents, activeId, onOpen, onRename, onDelete, onQueue }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  if (documents.length === 0) return null;
+
+  const visible = documents.filter(doc => matchesQuery(doc, query));
+
+  const startRename = (doc: LibraryDocument) => {
+    setEditingId(doc.id);
+    setDraftTitle(doc.title);
+  };
+
+  const commitRename = (doc: LibraryDocument) => {
+    const title = draftTitle.trim();
+    if (title && title !== doc.title) onRename(doc, title);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-xl border border-slate-700/50 p-4">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          <Library size={16} className="text-blue-400" />
+          Recent documents
+        </h2>
+        <div className="relative">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search library..."
+            className="bg-slate-900/60 border border-slate-700 rounded-lg pl-8 pr-3 py-1.5 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/50"
+          />
+        </div>
+      </div>
+
+      <ul className="flex flex-col gap-1 max-h-72 overflow-y-auto">
+        {visible.map(doc => {
+          const progress = doc.wordCount > 0 ? Math.round(((doc.position + 1) / doc.wordCount) * 100) : 0;
+          return (
+            <li
+              key={doc.id}
+              className={`group flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+                doc.id === activeId ? 'bg-blue-600/10 ring-1 ring-blue-500/30' : 'hover:bg-slate-700/50'
+              }`}
+            >
+              {editingId === doc.id ? (
+                <form
+                  className="flex-1 flex items-center gap-2"
+                  onSubmit={(e) => { e.preventDefault(); commitRename(doc); }}
+                >
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                    className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+                  />
+                  <button type="submit" className="p-1 text-emerald-400 hover:text-emerald-300" title="Save name">
+                    <Check size={16} />
+                  </button>
+                  <button type="button" onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-white" title="Cancel">
+                    <X size={16} />
+                  </button>
+                </form>
+              ) : (
+                <button onClick={() => onOpen(doc)} className="flex-1 min-w-0 text-left" title="Resume reading">
+                  <div className="text-sm text-slate-200 truncate">{doc.title}</div>
+                  <div className="text-xs text-slate-500 truncate">
+                    {doc.source} · {doc.wordCount} words · {progress}% · {formatLastRead(doc.lastReadAt)}
+                  </div>
+                </button>
+              )}
+
+              {editingId !== doc.id && (
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  {onQueue && (
+                    <button onClick={() => onQueue(doc)} className="p-1.5 text-slate-400 hover:text-blue-300 rounded" title="Add to reading queue">
+                      <ListPlus size={14} />
+                    </button>
+                  )}
+                  <button onClick={() => startRename(doc)} className="p-1.5 text-slate-400 hover:text-white rounded" title="Rename">
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => { if (window.confirm(`Delete "${doc.title}" from the library?`)) onDelete(doc); }}
+                    className="p-1.5 text-slate-400 hover:text-red-400 rounded"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+        {visible.length === 0 && (
+          <li className="px-3 py-4 text-center text-sm text-slate-500">No documents match "{query}".</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default LibraryList;
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Volume2, Play } from 'lucide-react';
+import { NarrationSettings } from '../types';
+import { isNarrationSupported, loadVoices, pickVoice, narrationRate } from '../services/narration';
+
+interface NarrationPanelProps {
+  narration: NarrationSettings;
+  documentLanguage: string;
+  wpm: number;
+  onChange: (narration: NarrationSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60";
+
+const languageName = (tag: string) => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(tag) || tag;
+  } catch {
+    return tag;
+  }
+};
+
+const NarrationPanel: React.FC<NarrationPanelProps> = ({ narration, documentLanguage, wpm, onChange, onClose }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const supported = isNarrationSupported();
+
+  useEffect(() => {
+    loadVoices().then(setVoices);
+    return () => {
+      if (supported) speechSynthesis.cancel();
+    };
+  }, []);
+
+  const language = narration.language || documentLanguage;
+  const base = language.split('-')[0];
+
+  // Base languages that have at least one voice, e.g. "en", "pt"
+  const languages = useMemo(
+    () => Array.from(new Set<string>(voices.map(v => v.lang.split('-')[0]))).sort((a, b) => languageName(a).localeCompare(languageName(b))),
+    [voices]
+  );
+  const languageVoices = voices.filter(v => v.lang.split('-')[0] === base);
+  const voice = pickVoice(voices, language, narration.voiceURI);
+  const { reachableWpm, clamped } = narrationRate(wpm, voice);
+
+  const handlePreview = () => {
+    speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(languageName(base));
+    if (voice) utterance.voice = voice;
+    utterance.lang = voice?.lang || language;
+    utterance.rate = narrationRate(wpm, voice).rate;
+    speechSynthesis.speak(utterance);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Volume2 size={20} className="text-blue-400" />
+            Narration
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!supported ? (
+          <p className="text-sm text-slate-400">Speech synthesis is not available in this browser.</p>
+        ) : (
+          <>
+            <label className="flex items-center justify-between text-sm text-slate-300">
+              Read aloud while playing
+              <input
+                type="checkbox"
+                checked={narration.enabled}
+                onChange={(e) => onChange({ ...narration, enabled: e.target.checked })}
+                className="w-4 h-4 accent-blue-500"
+              />
+            </label>
+
+            <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+              Language
+              <select
+                value={narration.language ? base : ''}
+                onChange={(e) => onChange({ ...narration, language: e.target.value, voiceURI: '' })}
+                className={inputClass}
+              >
+                <option value="">Same as document ({languageName(documentLanguage)})</option>
+                {languages.map(tag => (
+                  <option key={tag} value={tag}>{languageName(tag)}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+              Voice
+              <select
+                value={voice?.voiceURI || ''}
+                onChange={(e) => onChange({ ...narration, voiceURI: e.target.value })}
+                className={inputClass}
+                disabled={languageVoices.length === 0}
+              >
+                {languageVoices.length === 0 && <option value="">No voice installed for this language</option>}
+                {languageVoices.map(v => (
+                  <option key={v.voiceURI} value={v.voiceURI}>
+                    {v.name} ({v.lang}){v.localService ? '' : ' · online'}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {clamped && (
+              <div className="text-xs p-2 rounded-lg border bg-amber-900/20 border-amber-500/40 text-amber-200">
+                This voice can't speak at {wpm} WPM. Narration will run at about {reachableWpm} WPM and the display follows the voice.
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                onClick={handlePreview}
+                disabled={!voice}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+              >
+                <Play size={14} />
+                Preview
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NarrationPanel;
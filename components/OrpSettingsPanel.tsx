@@ -0,0 +1,80 @@
+import React from 'react';
+import { X, Crosshair } from 'lucide-react';
+import WordDisplay from './WordDisplay';
+import { OrpSettings } from '../types';
+import { ORP_STRATEGIES } from '../services/orp';
+
+interface OrpSettingsPanelProps {
+  orp: OrpSettings;
+  onChange: (orp: OrpSettings) => void;
+  onClose: () => void;
+}
+
+// Mixes narrow and wide glyphs so misalignment would be easy to spot
+const PREVIEW_WORDS = ['I', 'Wombat', 'illicit', 'mammoth', 'millimetre', 'extraordinarily'];
+
+const OrpSettingsPanel: React.FC<OrpSettingsPanelProps> = ({ orp, onChange, onClose }) => {
+  const current = ORP_STRATEGIES.find(s => s.id === orp.strategy);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Crosshair size={20} className="text-blue-400" />
+            Pivot letter
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          {ORP_STRATEGIES.map(strategy => (
+            <button
+              key={strategy.id}
+              onClick={() => onChange({ ...orp, strategy: strategy.id })}
+              className={`px-2 py-2 rounded-lg text-xs transition-colors ${
+                orp.strategy === strategy.id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700 border border-slate-700'
+              }`}
+            >
+              {strategy.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">{current?.description}</p>
+
+        {orp.strategy === 'percentage' && (
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            <span className="flex justify-between">
+              Position in word
+              <span className="font-mono text-slate-300">{Math.round(orp.percentage * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min={0.1}
+              max={0.6}
+              step={0.05}
+              value={orp.percentage}
+              onChange={(e) => onChange({ ...orp, percentage: Number(e.target.value) })}
+              className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </label>
+        )}
+
+        {/* Live preview: every pivot should sit on the guide line */}
+        <div className="relative flex flex-col gap-3 bg-[var(--reader-bg)] border border-slate-700 rounded-xl py-4 overflow-hidden">
+          <div className="absolute inset-y-0 left-1/2 w-px bg-red-500/30 pointer-events-none" />
+          {PREVIEW_WORDS.map(word => (
+            <WordDisplay key={word} word={word} fontSize={1.75} orp={orp} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrpSettingsPanel;
@@ -0,0 +1,153 @@
+import React, { memo, useCallback, useEffect, useLayoutEffect, useRef } from 'react';
+import { TextDirection, UNSPACED_CHAR } from '../services/language';
+
+// Visual lines measured in the rendered window: start words within [start, end)
+export interface PacerLines {
+  start: number;
+  end: number;
+  lineStarts: number[];
+}
+
+interface PacerViewProps {
+  words: string[];
+  start: number; // First rendered word
+  end: number; // One past the last rendered word
+  paragraphStarts: number[];
+  highlightStart: number;
+  highlightLength: number;
+  fontSize: number; // rem
+  direction?: TextDirection;
+  measureLines: boolean;
+  reducedMotion?: boolean;
+  onLines: (lines: PacerLines) => void;
+  onSeek: (wordIndex: number) => void;
+}
+
+interface ParagraphProps {
+  words: string[];
+  start: number;
+  end: number;
+  // Clamped to the paragraph, so paragraphs away from the highlight keep the same props and skip rendering
+  highlightStart: number;
+  highlightEnd: number;
+  onSeek: (wordIndex: number) => void;
+}
+
+const Paragraph = memo<ParagraphProps>(({ words, start, end, highlightStart, highlightEnd, onSeek }) => (
+  <p className="mb-[1em]">
+    {words.slice(start, end).map((word, i) => {
+      const index = start + i;
+      const isCurrent = index >= highlightStart && index < highlightEnd;
+      return (
+        <React.Fragment key={index}>
+          <span
+            data-index={index}
+            onClick={() => onSeek(index)}
+            className={`cursor-pointer rounded px-0.5 -mx-0.5 ${
+              isCurrent ? 'bg-blue-600/40 text-white' : index < highlightStart ? 'opacity-50' : 'hover:bg-slate-500/30'
+            }`}
+          >
+            {word}
+          </span>
+          {/* Chinese, Japanese and Thai words are not separated by spaces */}
+          {UNSPACED_CHAR.test(word) && UNSPACED_CHAR.test(words[index + 1] || '') ? '' : ' '}
+        </React.Fragment>
+      );
+    })}
+  </p>
+));
+
+// The text laid out as paragraphs with the current chunk or line highlighted, scrolling to follow it
+const PacerView: React.FC<PacerViewProps> = ({
+  words,
+  start,
+  end,
+  paragraphStarts,
+  highlightStart,
+  highlightLength,
+  fontSize,
+  direction = 'ltr',
+  measureLines,
+  reducedMotion = false,
+  onLines,
+  onSeek,
+}) => {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const contentRef = useRef<HTMLDivElement | null>(null);
+  const onSeekRef = useRef(onSeek);
+  onSeekRef.current = onSeek;
+  const seekWord = useCallback((index: number) => onSeekRef.current(index), []);
+  const onLinesRef = useRef(onLines);
+  onLinesRef.current = onLines;
+  const reportedRef = useRef('');
+  const lastTopRef = useRef(-1);
+  const lastStartRef = useRef(start);
+
+  const paragraphs = [start, ...paragraphStarts.filter(p => p > start && p < end)];
+  const highlightEnd = highlightStart + highlightLength;
+
+  // A new line begins wherever a word sits lower than the one before it
+  const measure = useCallback(() => {
+    const content = contentRef.current;
+    if (!measureLines || !content) return;
+    const lineStarts: number[] = [];
+    let lastTop = -Infinity;
+    content.querySelectorAll<HTMLElement>('[data-index]').forEach(el => {
+      if (el.offsetTop > lastTop + 2) lineStarts.push(Number(el.dataset.index));
+      lastTop = el.offsetTop;
+    });
+    const key = `${start}:${end}:${lineStarts.join(',')}`;
+    if (key === reportedRef.current) return;
+    reportedRef.current = key;
+    onLinesRef.current({ start, end, lineStarts });
+  }, [measureLines, start, end]);
+
+  useLayoutEffect(measure, [measure, fontSize, words]);
+
+  // Narrower or wider layouts rewrap the lines
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(() => measure());
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [measure]);
+
+  // Keep the current line a third of the way down; jump rather than glide when a new page loads
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    const current = contentRef.current?.querySelector<HTMLElement>(`[data-index="${highlightStart}"]`);
+    if (!scroller || !current) return;
+    const pageChanged = lastStartRef.current !== start;
+    lastStartRef.current = start;
+    if (current.offsetTop === lastTopRef.current && !pageChanged) return;
+    lastTopRef.current = current.offsetTop;
+    scroller.scrollTo({ top: current.offsetTop - scroller.clientHeight / 3, behavior: pageChanged || reducedMotion ? 'auto' : 'smooth' });
+  }, [highlightStart, start, fontSize, reducedMotion]);
+
+  return (
+    <div ref={scrollRef} className="w-full max-w-2xl h-[55vh] overflow-y-auto px-2" dir={direction}>
+      <div ref={contentRef} className="reader-font relative leading-relaxed" style={{ fontSize: `${fontSize}rem`, color: 'var(--reader-strong)' }}>
+        {start > 0 && <p className="text-slate-600 text-sm mb-4">…</p>}
+        {paragraphs.map((p, i) => {
+          const pEnd = i + 1 < paragraphs.length ? paragraphs[i + 1] : end;
+          const clamp = (index: number) => Math.max(p, Math.min(pEnd, index));
+          return (
+            <Paragraph
+              key={p}
+              words={words}
+              start={p}
+              end={pEnd}
+              highlightStart={clamp(highlightStart)}
+              highlightEnd={clamp(highlightEnd)}
+              onSeek={seekWord}
+            />
+          );
+        })}
+        {end < words.length && <p className="text-slate-600 text-sm">…</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PacerView;
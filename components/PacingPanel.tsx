@@ -0,0 +1,82 @@
+import React from 'react';
+import { X, Gauge } from 'lucide-react';
+import { PacingMultipliers, PacingProfileId, PacingSettings } from '../types';
+import { PACING_PROFILES, MULTIPLIER_FIELDS } from '../services/pacing';
+
+interface PacingPanelProps {
+  pacing: PacingSettings;
+  onChange: (pacing: PacingSettings) => void;
+  onClose: () => void;
+}
+
+const PacingPanel: React.FC<PacingPanelProps> = ({ pacing, onChange, onClose }) => {
+  const selectProfile = (profile: Exclude<PacingProfileId, 'custom'>) => {
+    onChange({ profile, multipliers: { ...PACING_PROFILES[profile].multipliers } });
+  };
+
+  // Any manual adjustment turns the current profile into a custom one
+  const updateMultiplier = (key: keyof PacingMultipliers, value: number) => {
+    onChange({ profile: 'custom', multipliers: { ...pacing.multipliers, [key]: value } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Gauge size={20} className="text-blue-400" />
+            Pacing
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(PACING_PROFILES) as Exclude<PacingProfileId, 'custom'>[]).map(id => (
+            <button
+              key={id}
+              onClick={() => selectProfile(id)}
+              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                pacing.profile === id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700 border border-slate-700'
+              }`}
+            >
+              {PACING_PROFILES[id].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">
+          {pacing.profile === 'custom' ? 'Custom multipliers.' : PACING_PROFILES[pacing.profile].description}
+        </p>
+
+        <div className="flex flex-col gap-3">
+          {MULTIPLIER_FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col gap-1 text-xs text-slate-400">
+              <span className="flex justify-between">
+                {field.label}
+                <span className="font-mono text-slate-300">
+                  {field.key === 'longWordPerChar' || field.key === 'longWordCap' ? '+' : '×'}
+                  {pacing.multipliers[field.key].toFixed(2)}
+                </span>
+              </span>
+              <input
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={pacing.multipliers[field.key]}
+                onChange={(e) => updateMultiplier(field.key, Number(e.target.value))}
+                className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PacingPanel;
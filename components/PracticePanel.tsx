@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { X, BookOpen, Sparkles, Shuffle } from 'lucide-react';
+import { PracticeGenre, PracticeOptions } from '../types';
+import {
+  PRACTICE_GENRES,
+  PRACTICE_LANGUAGES,
+  PRACTICE_LENGTHS,
+  RANDOM_TOPICS,
+  loadPracticeOptions,
+  savePracticeOptions,
+} from '../services/practice';
+import { READING_LEVELS } from '../services/readability';
+
+interface PracticePanelProps {
+  onGenerate: (options: PracticeOptions) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60";
+
+const PracticePanel: React.FC<PracticePanelProps> = ({ onGenerate, onClose }) => {
+  const [options, setOptions] = useState<PracticeOptions>(loadPracticeOptions);
+
+  const update = (patch: Partial<PracticeOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleGenerate = () => {
+    savePracticeOptions(options);
+    onGenerate(options);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <BookOpen size={20} className="text-blue-400" />
+            Practice text
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Topic
+          <div className="flex gap-2">
+            <input
+              autoFocus
+              value={options.topic}
+              onChange={(e) => update({ topic: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleGenerate()}
+              placeholder="Leave empty for a random topic"
+              className={inputClass}
+            />
+            <button
+              onClick={() => update({ topic: RANDOM_TOPICS[Math.floor(Math.random() * RANDOM_TOPICS.length)] })}
+              className="px-3 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors"
+              title="Suggest a topic"
+            >
+              <Shuffle size={16} />
+            </button>
+          </div>
+        </label>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+            Genre
+            <select value={options.genre} onChange={(e) => update({ genre: e.target.value as PracticeGenre })} className={inputClass}>
+              {PRACTICE_GENRES.map(genre => (
+                <option key={genre.id} value={genre.id}>{genre.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+            Language
+            <select value={options.language} onChange={(e) => update({ language: e.target.value })} className={inputClass}>
+              {PRACTICE_LANGUAGES.map(language => (
+                <option key={language.id} value={language.id}>{language.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Length
+          <div className="grid grid-cols-5 gap-2">
+            {PRACTICE_LENGTHS.map(words => (
+              <button
+                key={words}
+                onClick={() => update({ words })}
+                className={`px-2 py-2 rounded-lg text-xs font-mono transition-colors ${
+                  options.words === words ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700 border border-slate-700'
+                }`}
+              >
+                {words}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Reading level
+          <div className="grid grid-cols-5 gap-2">
+            {READING_LEVELS.map(level => (
+              <button
+                key={level.id}
+                onClick={() => update({ level: level.id })}
+                className={`px-1 py-2 rounded-lg text-xs transition-colors ${
+                  options.level === level.id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700 border border-slate-700'
+                }`}
+              >
+                {level.label}
+              </button>
+            ))}
+          </div>
+          <span className="text-slate-500">{READING_LEVELS.find(l => l.id === options.level)?.description}</span>
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleGenerate}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+          >
+            <Sparkles size={16} />
+            Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PracticePanel;
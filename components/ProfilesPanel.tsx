@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import { X, UserRound, Plus, Trash2, Download, Upload } from 'lucide-react';
+import { DisplaySettings, ReaderFont } from '../types';
+import {
+  ProfileStore,
+  READER_FONTS,
+  READER_THEMES,
+  FOCUS_GUIDES,
+  PIVOT_COLORS,
+  MAX_LETTER_SPACING,
+  activeProfile,
+  createProfile,
+  updateProfile,
+  exportProfiles,
+  importProfiles,
+} from '../services/profiles';
+import { downloadFile, dateStamp } from '../services/download';
+
+interface ProfilesPanelProps {
+  store: ProfileStore;
+  onChange: (store: ProfileStore) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60";
+
+const optionClass = (selected: boolean) =>
+  `px-2 py-2 rounded-lg text-xs transition-colors ${
+    selected ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700 border border-slate-700'
+  }`;
+
+const ProfilesPanel: React.FC<ProfilesPanelProps> = ({ store, onChange, onClose }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const profile = activeProfile(store);
+  const display = profile.display;
+
+  const updateDisplay = (patch: Partial<DisplaySettings>) =>
+    onChange(updateProfile(store, { ...profile, display: { ...display, ...patch } }));
+
+  // A new profile starts as a copy of the current one
+  const addProfile = () => {
+    const created = createProfile(`Profile ${store.profiles.length + 1}`, profile);
+    onChange({ ...store, activeId: created.id, profiles: [...store.profiles, created] });
+  };
+
+  const deleteProfile = () => {
+    if (store.profiles.length < 2 || !window.confirm(`Delete the profile "${profile.name}"?`)) return;
+    const profiles = store.profiles.filter(p => p.id !== profile.id);
+    onChange({ ...store, activeId: profiles[0].id, profiles });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = importProfiles(await file.text());
+      setImportError(null);
+      onChange({ ...store, activeId: imported[0].id, profiles: [...store.profiles, ...imported] });
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Could not import the profiles.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <UserRound size={20} className="text-blue-400" />
+            Reader profiles
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Profile
+          <div className="flex gap-2">
+            <select value={profile.id} onChange={(e) => onChange({ ...store, activeId: e.target.value })} className={inputClass}>
+              {store.profiles.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={addProfile}
+              className="px-3 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors"
+              title="New profile from this one"
+            >
+              <Plus size={16} />
+            </button>
+            <button
+              onClick={deleteProfile}
+              disabled={store.profiles.length < 2}
+              className="px-3 bg-slate-900 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed border border-slate-700 rounded-lg text-slate-400 hover:text-red-300 transition-colors"
+              title="Delete profile"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <input
+            value={profile.name}
+            onChange={(e) => onChange(updateProfile(store, { ...profile, name: e.target.value.slice(0, 60) }))}
+            placeholder="Profile name"
+            className={inputClass}
+          />
+          <span className="text-slate-500">
+            Saves your speed, chunk size and font size as you change them:{' '}
+            <span className="font-mono text-slate-300">{profile.reader.wpm}</span> WPM on standard prose ·{' '}
+            <span className="font-mono text-slate-300">{profile.reader.chunkSize}</span> {profile.reader.chunkSize === 1 ? 'word' : 'words'} ·{' '}
+            <span className="font-mono text-slate-300">{profile.reader.fontSize}</span> rem
+          </span>
+        </div>
+
+        <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Font
+          <select value={display.font} onChange={(e) => updateDisplay({ font: e.target.value as ReaderFont })} className={inputClass}>
+            {READER_FONTS.map(font => (
+              <option key={font.id} value={font.id}>{font.label}{font.id === 'dyslexic' ? ' (dyslexia-friendly)' : ''}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+          <span className="flex justify-between">
+            Letter spacing
+            <span className="font-mono text-slate-300">{display.letterSpacing.toFixed(2)} em</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_LETTER_SPACING}
+            step={0.01}
+            value={display.letterSpacing}
+            onChange={(e) => updateDisplay({ letterSpacing: Number(e.target.value) })}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </label>
+
+        <div className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Pivot colour
+          <div className="flex items-center gap-2">
+            {PIVOT_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => updateDisplay({ pivotColor: color })}
+                className={`w-7 h-7 rounded-full transition-transform hover:scale-110 ${display.pivotColor === color ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-800' : ''}`}
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+            <input
+              type="color"
+              value={display.pivotColor}
+              onChange={(e) => updateDisplay({ pivotColor: e.target.value.toLowerCase() })}
+              className="w-7 h-7 bg-transparent cursor-pointer"
+              title="Custom colour"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Theme
+          <div className="grid grid-cols-3 gap-2">
+            {READER_THEMES.map(theme => (
+              <button key={theme.id} onClick={() => updateDisplay({ theme: theme.id })} className={optionClass(display.theme === theme.id)}>
+                {theme.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1.5 text-xs text-slate-400">
+          Focus guide
+          <div className="grid grid-cols-4 gap-2">
+            {FOCUS_GUIDES.map(guide => (
+              <button key={guide.id} onClick={() => updateDisplay({ focusGuide: guide.id })} className={optionClass(display.focusGuide === guide.id)}>
+                {guide.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={display.reducedMotion}
+            onChange={(e) => updateDisplay({ reducedMotion: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Reduce motion (no animations or smooth scrolling)
+        </label>
+
+        {importError && <p className="text-xs text-red-300">{importError}</p>}
+
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+            title="Import profiles from a JSON file"
+          >
+            <Upload size={16} />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => downloadFile(`speedyreader-profiles-${dateStamp()}.json`, exportProfiles(store.profiles), 'application/json')}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+            title="Export all profiles as JSON"
+          >
+            <Download size={16} />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesPanel;
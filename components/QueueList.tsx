@@ -0,0 +1,126 @@
+import React from 'react';
+import { ListOrdered, Play, ArrowUp, ArrowDown, X, Check, SkipForward, Sparkles } from 'lucide-react';
+import { ReadingQueue } from '../types';
+import {
+  QueueEntry,
+  moveQueueItem,
+  removeFromQueue,
+  clearFinished,
+  requeueAll,
+  nextQueueItem,
+  estimateMs,
+  queueProgress,
+} from '../services/readingQueue';
+import { formatDuration } from '../services/analytics';
+
+interface QueueListProps {
+  queue: ReadingQueue;
+  entries: QueueEntry[];
+  currentPosition: number; // Saved position in the item being read
+  wpm: number;
+  onChange: (queue: ReadingQueue) => void;
+  onStart: (itemId: string) => void;
+}
+
+const QueueList: React.FC<QueueListProps> = ({ queue, entries, currentPosition, wpm, onChange, onStart }) => {
+  if (entries.length === 0) return null;
+
+  const progress = queueProgress(entries, queue.currentId, currentPosition);
+  const current = entries.find(entry => entry.id === queue.currentId);
+  const next = current ?? nextQueueItem(entries);
+  const wordsToRead = progress.wordsLeft + (current ? Math.max(0, current.wordCount - currentPosition) : 0);
+  const hasFinished = entries.some(entry => entry.state !== 'queued');
+
+  return (
+    <div className="mt-8 bg-slate-800/50 rounded-xl border border-slate-700/50 p-4">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+          <ListOrdered size={16} className="text-blue-400" />
+          Reading queue
+          <span className="font-normal text-xs text-slate-500">
+            {entries.length} {entries.length === 1 ? 'item' : 'items'} · about {formatDuration(estimateMs(wordsToRead, wpm))} left
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onChange({ ...queue, showSummaries: !queue.showSummaries })}
+            className={`p-1.5 rounded-lg transition-colors ${queue.showSummaries ? 'text-amber-300 bg-amber-500/10' : 'text-slate-500 hover:text-white hover:bg-slate-700'}`}
+            title={queue.showSummaries ? 'AI summary on each title card: on' : 'AI summary on each title card: off'}
+          >
+            <Sparkles size={16} />
+          </button>
+          <button
+            onClick={() => next && onStart(next.id)}
+            disabled={!next}
+            className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 disabled:cursor-not-allowed rounded-lg text-sm text-white font-medium transition-colors"
+          >
+            <Play size={14} fill="currentColor" />
+            {current ? 'Resume queue' : 'Read queue'}
+          </button>
+        </div>
+      </div>
+
+      <div className="w-full bg-slate-700/50 h-1.5 rounded-full mb-3 overflow-hidden" title={`${progress.wordsDone} of ${progress.totalWords} words`}>
+        <div className="bg-blue-500 h-full" style={{ width: `${progress.fraction * 100}%` }} />
+      </div>
+
+      <ol className="flex flex-col gap-1 max-h-72 overflow-y-auto">
+        {entries.map((entry, i) => (
+          <li
+            key={entry.id}
+            className={`group flex items-center gap-3 px-3 py-2 rounded-lg transition-colors ${
+              entry.id === queue.currentId ? 'bg-blue-600/10 ring-1 ring-blue-500/30' : 'hover:bg-slate-700/50'
+            }`}
+          >
+            <span className="w-5 text-right text-xs font-mono text-slate-500">{i + 1}</span>
+            <button onClick={() => onStart(entry.id)} className="flex-1 min-w-0 text-left" title="Read from this item">
+              <div className={`text-sm truncate ${entry.state === 'queued' ? 'text-slate-200' : 'text-slate-500 line-through decoration-slate-600'}`}>
+                {entry.title}
+              </div>
+              <div className="text-xs text-slate-500 truncate">
+                {entry.wordCount} words · {formatDuration(estimateMs(entry.wordCount, wpm))}
+                {entry.summary && ' · summarized'}
+              </div>
+            </button>
+            {entry.state === 'read' && <Check size={14} className="text-emerald-400" aria-label="Read" />}
+            {entry.state === 'skipped' && <SkipForward size={14} className="text-slate-500" aria-label="Skipped" />}
+            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <button
+                onClick={() => onChange(moveQueueItem(queue, entry.id, -1))}
+                disabled={i === 0}
+                className="p-1.5 text-slate-400 hover:text-white disabled:opacity-30 rounded"
+                title="Move up"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => onChange(moveQueueItem(queue, entry.id, 1))}
+                disabled={i === entries.length - 1}
+                className="p-1.5 text-slate-400 hover:text-white disabled:opacity-30 rounded"
+                title="Move down"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button onClick={() => onChange(removeFromQueue(queue, entry.id))} className="p-1.5 text-slate-400 hover:text-red-400 rounded" title="Remove from queue">
+                <X size={14} />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {hasFinished && (
+        <div className="flex justify-end gap-3 mt-2 text-xs">
+          <button onClick={() => onChange(requeueAll(queue))} className="text-slate-500 hover:text-white transition-colors">
+            Read all again
+          </button>
+          <button onClick={() => onChange(clearFinished(queue))} className="text-slate-500 hover:text-white transition-colors">
+            Clear finished
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueueList;
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListOrdered, Play, SkipForward, Sparkles } from 'lucide-react';
+import { briefSummary } from '../services/aiService';
+import { QueueEntry, estimateMs } from '../services/readingQueue';
+import { formatDuration } from '../services/analytics';
+
+interface QueueTitleCardProps {
+  entry: QueueEntry;
+  position: number; // 1-based place in the queue
+  count: number;
+  text: string;
+  wpm: number;
+  autoSummarize: boolean;
+  onSummary: (summary: string) => void;
+  onStart: () => void;
+  onSkip: () => void;
+}
+
+// Introduces the next queue item before it is read, with an optional AI summary
+const QueueTitleCard: React.FC<QueueTitleCardProps> = ({
+  entry,
+  position,
+  count,
+  text,
+  wpm,
+  autoSummarize,
+  onSummary,
+  onStart,
+  onSkip,
+}) => {
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const summarize = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSummarizing(true);
+    setError(null);
+    try {
+      onSummary(await briefSummary(text, controller.signal));
+    } catch (e) {
+      if (!controller.signal.aborted) setError("Could not summarize this item. Check AI settings.");
+    } finally {
+      if (!controller.signal.aborted) setIsSummarizing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (autoSummarize && !entry.summary) summarize();
+    return () => abortRef.current?.abort();
+  }, []);
+
+  return (
+    <div className="relative z-10 w-full max-w-xl flex flex-col gap-4 bg-slate-900/95 border border-slate-700/50 rounded-xl p-6">
+      <div className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-500">
+        <ListOrdered size={14} className="text-blue-400" />
+        Queue · {position} of {count}
+      </div>
+
+      <div>
+        <h2 className="text-2xl font-semibold text-white leading-snug">{entry.title}</h2>
+        <div className="mt-1 text-xs font-mono text-slate-500">
+          {entry.wordCount} words · about {formatDuration(estimateMs(entry.wordCount, wpm))} at {wpm} WPM
+        </div>
+      </div>
+
+      {entry.summary ? (
+        <p className="text-sm leading-relaxed text-slate-300 whitespace-pre-wrap">{entry.summary}</p>
+      ) : isSummarizing ? (
+        <div className="flex items-center gap-2 text-sm text-slate-500">
+          <div className="animate-spin h-3.5 w-3.5 border-2 border-blue-400 border-t-transparent rounded-full" />
+          Summarizing…
+        </div>
+      ) : (
+        <button
+          onClick={summarize}
+          className="self-start flex items-center gap-1.5 text-xs text-slate-400 hover:text-blue-300 transition-colors"
+        >
+          <Sparkles size={14} />
+          Summarize with AI
+        </button>
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={onSkip}
+          className="flex items-center gap-2 px-4 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+        >
+          <SkipForward size={16} />
+          Skip
+        </button>
+        <button
+          autoFocus
+          onClick={onStart}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+        >
+          <Play size={16} fill="currentColor" />
+          Read
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QueueTitleCard;
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { Brain, Check, X, WifiOff } from 'lucide-react';
+import { QuizQuestion, QuizResult } from '../types';
+import { generateQuiz } from '../services/aiService';
+import { buildClozeQuiz, scoreQuiz } from '../services/quiz';
+
+interface QuizPanelProps {
+  text: string; // The text that was just read
+  wpm: number; // Achieved reading speed
+  documentId: string | null;
+  onComplete: (result: QuizResult) => void;
+  onClose: () => void;
+}
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ text, wpm, documentId, onComplete, onClose }) => {
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [source, setSource] = useState<QuizResult['source']>('ai');
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [result, setResult] = useState<QuizResult | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fallBackToOffline = () => {
+      const offline = buildClozeQuiz(text);
+      setSource('offline');
+      setQuestions(offline);
+      setAnswers(offline.map(() => null));
+    };
+
+    // Fall back to locally built questions when offline or when the provider fails
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      fallBackToOffline();
+    } else {
+      generateQuiz(text, undefined, controller.signal)
+        .then(generated => {
+          setSource('ai');
+          setQuestions(generated);
+          setAnswers(generated.map(() => null));
+        })
+        .catch(() => {
+          if (!controller.signal.aborted) fallBackToOffline();
+        });
+    }
+    return () => controller.abort();
+  }, [text]);
+
+  const handleSubmit = () => {
+    if (!questions) return;
+    const scored = scoreQuiz(questions, answers, wpm, source, documentId);
+    setResult(scored);
+    onComplete(scored);
+  };
+
+  if (!questions) {
+    return (
+      <div className="flex flex-col items-center gap-4 text-slate-400">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-400 border-t-transparent rounded-full"/>
+        <span className="text-sm">Writing questions…</span>
+      </div>
+    );
+  }
+
+  if (questions.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-4 text-slate-400 text-center">
+        <p className="text-sm">This text is too short to build a quiz from.</p>
+        <button onClick={onClose} className="px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm text-slate-200">Close</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-2xl max-h-[60vh] overflow-y-auto bg-slate-800/80 border border-slate-700/50 rounded-2xl p-6 flex flex-col gap-5 z-10">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <Brain size={20} className="text-emerald-400" />
+          Comprehension check
+        </h2>
+        {source === 'offline' && (
+          <span className="flex items-center gap-1.5 text-xs text-slate-500" title="Built locally from the text">
+            <WifiOff size={12} /> Offline questions
+          </span>
+        )}
+      </div>
+
+      {result && (
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-slate-900/60 rounded-xl p-3">
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">Speed</div>
+            <div className="text-xl font-mono text-white">{result.wpm} <span className="text-xs text-slate-500">WPM</span></div>
+          </div>
+          <div className="bg-slate-900/60 rounded-xl p-3">
+            <div className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">Accuracy</div>
+            <div className="text-xl font-mono text-white">{Math.round(result.accuracy * 100)}%</div>
+          </div>
+          <div className="bg-emerald-900/20 ring-1 ring-emerald-500/30 rounded-xl p-3">
+            <div className="text-[10px] uppercase tracking-wider text-emerald-400/80 font-bold">Effective</div>
+            <div className="text-xl font-mono text-emerald-300">{result.effectiveWpm} <span className="text-xs text-emerald-500/70">WPM</span></div>
+          </div>
+        </div>
+      )}
+
+      {questions.map((q, qi) => (
+        <div key={qi} className="flex flex-col gap-2">
+          <p className="text-sm text-slate-200">
+            <span className="text-slate-500 font-mono mr-2">{qi + 1}.</span>
+            {source === 'offline' && <span className="text-slate-500">Fill in the blank: </span>}
+            {q.question}
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {q.options.map((option, oi) => {
+              const selected = answers[qi] === oi;
+              const isAnswer = q.answerIndex === oi;
+              let style = selected ? 'bg-blue-600/20 border-blue-500/60 text-blue-200' : 'bg-slate-900/40 border-slate-700 text-slate-300 hover:border-slate-500';
+              if (result) {
+                style = isAnswer
+                  ? 'bg-emerald-900/30 border-emerald-500/60 text-emerald-200'
+                  : selected ? 'bg-red-900/30 border-red-500/60 text-red-200' : 'bg-slate-900/40 border-slate-800 text-slate-500';
+              }
+              return (
+                <button
+                  key={oi}
+                  disabled={!!result}
+                  onClick={() => setAnswers(prev => prev.map((a, i) => (i === qi ? oi : a)))}
+                  className={`flex items-center justify-between gap-2 text-left text-sm px-3 py-2 rounded-lg border transition-colors ${style}`}
+                >
+                  <span>{option}</span>
+                  {result && isAnswer && <Check size={14} />}
+                  {result && selected && !isAnswer && <X size={14} />}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        {result ? (
+          <button onClick={onClose} className="px-5 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium">
+            Done
+          </button>
+        ) : (
+          <>
+            <button onClick={onClose} className="px-4 py-2 text-sm text-slate-400 hover:text-white">Skip</button>
+            <button
+              onClick={handleSubmit}
+              disabled={answers.some(a => a === null)}
+              className="px-5 py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed rounded-lg text-sm text-white font-medium"
+            >
+              Check answers
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizPanel;
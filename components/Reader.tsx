@@ -1,126 +1,749 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Play, Pause, RotateCcw, ArrowLeft, Settings, Type, FastForward } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { flushSync } from 'react-dom';
+import { Play, Pause, RotateCcw, ArrowLeft, Settings, Type, FastForward, List, Brain, Keyboard, Gauge, ChevronLeft, ChevronsLeft, Repeat, Crosshair, Dumbbell, Volume2, Highlighter, Braces, BookOpen, UserRound, ListOrdered, SkipForward } from 'lucide-react';
 import WordDisplay from './WordDisplay';
-import { ReaderSettings } from '../types';
+import QuizPanel from './QuizPanel';
+import KeyboardHelp from './KeyboardHelp';
+import CommandPalette from './CommandPalette';
+import PacingPanel from './PacingPanel';
+import ContextPeek from './ContextPeek';
+import OrpSettingsPanel from './OrpSettingsPanel';
+import TrainingPanel from './TrainingPanel';
+import NarrationPanel from './NarrationPanel';
+import AnnotationsSidebar from './AnnotationsSidebar';
+import AnnotationDialog from './AnnotationDialog';
+import StructurePanel from './StructurePanel';
+import StructuredBlockView from './StructuredBlockView';
+import PacerView, { PacerLines } from './PacerView';
+import ProfilesPanel from './ProfilesPanel';
+import QueueTitleCard from './QueueTitleCard';
+import { Annotation, AnnotationKind, Chapter, NarrationSettings, OrpSettings, PacingSettings, QueueItemState, QuizResult, ReaderProfile, ReaderSettings, ReadingModeSettings, ReadingQueue, StructureSettings, TrainingProgram } from '../types';
+import {
+  parseStructuredText,
+  findChapterIndex,
+  previousBoundary,
+  nextBoundary,
+  boundaryAt,
+  contextRange,
+  structureBreaks,
+  cueAt,
+  ContentBlock,
+  ListItem,
+} from '../services/textStructure';
+import { buildChunks, findChunkIndex, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE } from '../services/chunker';
+import { createSessionTracker, playingWpm, SessionStats } from '../services/sessionTracker';
+import { createPlaybackScheduler, PlaybackItem } from '../services/playbackScheduler';
+import { buildTimeline, rangeDelay, remainingMs, loadPacingSettings, savePacingSettings } from '../services/pacing';
+import { joinWords } from '../services/tokenizer';
+import { loadOrpSettings, saveOrpSettings } from '../services/orp';
+import { programWpm, programPhase, programRemainingMs } from '../services/training';
+import {
+  createNarrator,
+  loadVoices,
+  pickVoice,
+  narrationRate,
+  loadNarrationSettings,
+  saveNarrationSettings,
+  NarrationCallbacks,
+} from '../services/narration';
+import { LanguageInfo } from '../services/language';
+import {
+  createAnnotation,
+  listAnnotations,
+  saveAnnotation,
+  deleteAnnotation,
+  relocateAnnotations,
+  annotationsToMarkdown,
+  annotationsToJson,
+} from '../services/annotations';
+import { downloadFile, dateStamp } from '../services/download';
+import { handledBlockAt, skipBlocks, unflashedRanges, loadStructureSettings, saveStructureSettings } from '../services/structuredContent';
+import { paginate, pacerWindow, withLineChunks, loadReadingMode, saveReadingMode } from '../services/pacer';
+import { scoreReadability, recommendWpm, readabilityFactor } from '../services/readability';
+import { ProfileStore, activeProfile, loadProfiles, saveProfiles, updateProfile, fontFamily } from '../services/profiles';
+import { QueueEntry, estimateMs, nextQueueItem, queueProgress } from '../services/readingQueue';
+import { formatDuration } from '../services/analytics';
+import { KeyBindings, ReaderAction, eventToCombo, findAction, loadKeyBindings, saveKeyBindings } from '../services/keyBindings';
+
+const REPLAY_STORAGE_KEY = 'speedyreader.replayOnResume';
 
 interface ReaderProps {
   text: string;
+  initialIndex?: number; // Word to resume from
+  documentId?: string | null;
+  documentTitle?: string; // Heading for exported highlights
   onBack: () => void;
+  onProgress?: (index: number) => void;
+  onQuizComplete?: (result: QuizResult) => void;
+  onSessionEnd?: (stats: SessionStats, settings: ReaderSettings, documentId: string | null) => void;
+  queue?: ReadingQueue; // Set while reading through the queue
+  queueEntries?: QueueEntry[];
+  onQueueAdvance?: (state: QueueItemState) => void;
+  onQueueSummary?: (itemId: string, summary: string) => void;
 }
 
-const Reader: React.FC<ReaderProps> = ({ text, onBack }) => {
+const Reader: React.FC<ReaderProps> = ({
+  text,
+  initialIndex = 0,
+  documentId = null,
+  documentTitle = 'Untitled',
+  onBack,
+  onProgress,
+  onQuizComplete,
+  onSessionEnd,
+  queue,
+  queueEntries = [],
+  onQueueAdvance,
+  onQueueSummary,
+}) => {
   const [words, setWords] = useState<string[]>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [sentenceStarts, setSentenceStarts] = useState<number[]>([]);
+  const [paragraphStarts, setParagraphStarts] = useState<number[]>([]);
+  const [blocks, setBlocks] = useState<ContentBlock[]>([]);
+  const [listItems, setListItems] = useState<ListItem[]>([]);
+  const [language, setLanguage] = useState<LanguageInfo>({ language: 'en', script: 'latin', direction: 'ltr' });
+  const [showChapters, setShowChapters] = useState(false);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [settings, setSettings] = useState<ReaderSettings>({
-    wpm: 350, // Slightly higher default for scientific method
-    chunkSize: 1,
-    fontSize: 4,
-  });
+  const [isFinished, setIsFinished] = useState(false);
+  const [showQuiz, setShowQuiz] = useState(false);
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
+  const [finishedStats, setFinishedStats] = useState<SessionStats | null>(null);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(loadKeyBindings);
+  const [showHelp, setShowHelp] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [pacing, setPacing] = useState<PacingSettings>(loadPacingSettings);
+  const [showPacing, setShowPacing] = useState(false);
+  const [orp, setOrp] = useState<OrpSettings>(loadOrpSettings);
+  const [showOrp, setShowOrp] = useState(false);
+  const [training, setTraining] = useState<TrainingProgram | null>(null);
+  const [showTraining, setShowTraining] = useState(false);
+  const trainingWordsRef = useRef(0); // Words read since the training program started
+  const [narration, setNarration] = useState<NarrationSettings>(loadNarrationSettings);
+  const [showNarration, setShowNarration] = useState(false);
+  const [narrationError, setNarrationError] = useState<string | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [annotationDraft, setAnnotationDraft] = useState<Annotation | null>(null);
+  const [annotationNotice, setAnnotationNotice] = useState<string | null>(null);
+  const [structure, setStructure] = useState<StructureSettings>(loadStructureSettings);
+  const [showStructure, setShowStructure] = useState(false);
+  const [readingMode, setReadingMode] = useState<ReadingModeSettings>(loadReadingMode);
+  const [pacerLines, setPacerLines] = useState<PacerLines | null>(null);
+  // Each queue item opens on a title card
+  const [showTitleCard, setShowTitleCard] = useState(!!queue);
+  // Resuming restarts the sentence that was interrupted
+  const [replayOnResume, setReplayOnResume] = useState(() => localStorage.getItem(REPLAY_STORAGE_KEY) !== 'false');
+  const [profiles, setProfiles] = useState<ProfileStore>(loadProfiles);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const profile = activeProfile(profiles);
+  const display = profile.display;
+  // Reading starts from the active profile's speed and sizes
+  const [settings, setSettings] = useState<ReaderSettings>(() => ({ ...profile.reader }));
+  const readingEaseRef = useRef<number | null>(null); // Readability of the text, to rescale the speed when the profile changes
 
-  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The scheduler calls back through a ref so it always sees the latest chunks and speed
+  const advanceRef = useRef<() => PlaybackItem | null>(() => null);
+  const schedulerRef = useRef(createPlaybackScheduler(() => advanceRef.current()));
+  const scheduledIndexRef = useRef(-1); // Chunk start the scheduler is currently timing
+  const autoPausedRef = useRef(false); // Paused because the tab was hidden
+  const trackerRef = useRef(createSessionTracker());
+  const sessionStartRef = useRef(0); // First word of the current session, for the quiz
+  const initialIndexRef = useRef(initialIndex);
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+  const onSessionEndRef = useRef(onSessionEnd);
+  onSessionEndRef.current = onSessionEnd;
+  const documentIdRef = useRef(documentId);
+  documentIdRef.current = documentId;
 
   useEffect(() => {
     // Preserve punctuation attached to words for context
-    // We filter out empty strings but keep everything else
-    const processed = text.trim().split(/\s+/).filter(w => w.length > 0);
-    setWords(processed);
-    setCurrentIndex(0);
+    // Heading lines ("# Title") become chapters; their markers are not flashed
+    const processed = parseStructuredText(text);
+    setWords(processed.words);
+    setChapters(processed.chapters);
+    setSentenceStarts(processed.sentenceStarts);
+    setParagraphStarts(processed.paragraphStarts);
+    setBlocks(processed.blocks);
+    setListItems(processed.listItems);
+    setLanguage(processed.language);
+    // Easier text starts faster, harder text slower, relative to the profile's speed
+    const readability = scoreReadability(text, processed.language.language, profile.reader.wpm);
+    readingEaseRef.current = readability?.ease ?? null;
+    if (readability) setSettings(prev => ({ ...prev, wpm: readability.recommendedWpm, recommendedWpm: readability.recommendedWpm }));
+    const start = Math.max(0, Math.min(initialIndexRef.current, processed.words.length - 1));
+    setCurrentIndex(start);
+    sessionStartRef.current = start;
     setIsPlaying(false);
+    schedulerRef.current.resetTiming();
   }, [text]);
 
-  const togglePlay = () => setIsPlaying(!isPlaying);
-  
+  useEffect(() => {
+    if (isPlaying) trackerRef.current.start();
+    else trackerRef.current.stop();
+  }, [isPlaying]);
+
+  // Highlights belong to the document; edits to its text move them to where their quote went
+  useEffect(() => {
+    if (!documentId || words.length === 0) {
+      setAnnotations([]);
+      return;
+    }
+    let cancelled = false;
+    listAnnotations(documentId)
+      .then(saved => {
+        const moved = relocateAnnotations(saved, words);
+        moved.forEach(a => saveAnnotation(a).catch(error => console.error("Error saving annotation:", error)));
+        const byId = new Map(moved.map(a => [a.id, a]));
+        const current = saved.map(a => byId.get(a.id) || a).sort((a, b) => a.startIndex - b.startIndex);
+        if (!cancelled) setAnnotations(current);
+      })
+      .catch(error => console.error("Error loading annotations:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, words]);
+
+  useEffect(() => {
+    if (!annotationNotice) return;
+    const timer = setTimeout(() => setAnnotationNotice(null), 1500);
+    return () => clearTimeout(timer);
+  }, [annotationNotice]);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Reports the session (if anything was read) and starts counting a fresh one
+  const endSession = useCallback(() => {
+    const tracker = trackerRef.current;
+    tracker.stop();
+    if (tracker.hasActivity()) onSessionEndRef.current?.(tracker.stats(), settingsRef.current, documentIdRef.current);
+    tracker.reset();
+  }, []);
+
+  // Leaving the reader or closing the tab ends the session
+  useEffect(() => {
+    window.addEventListener('pagehide', endSession);
+    return () => {
+      window.removeEventListener('pagehide', endSession);
+      endSession();
+    };
+  }, [endSession]);
+
+  // Both modes share the position; the pacer renders a few pages around it
+  const isPacer = readingMode.mode === 'pacer';
+  const pages = useMemo(() => paginate(paragraphStarts, sentenceStarts, words.length), [paragraphStarts, sentenceStarts, words.length]);
+  const pacerRange = isPacer ? pacerWindow(pages, words.length, currentIndex) : null;
+
+  // Chunks never span a chapter start, heading, block or list item edge, so
+  // chapter jumps land on a chunk boundary and each flash gets a single cue.
+  // In pacer mode they don't span a page either, and line pacing swaps the
+  // chunks on screen for the lines as laid out.
+  const wordChunks = useMemo(
+    () =>
+      buildChunks(words, settings.chunkSize, [
+        ...structureBreaks({ chapters, paragraphStarts, blocks, listItems }),
+        ...(isPacer ? pages : []),
+      ]),
+    [words, chapters, paragraphStarts, blocks, listItems, settings.chunkSize, isPacer, pages]
+  );
+  const pacesLines = isPacer && readingMode.pacerUnit === 'line' && pacerLines !== null;
+  const chunks = useMemo(
+    () => (pacesLines && pacerLines ? withLineChunks(wordChunks, pacerLines.lineStarts, pacerLines.start, pacerLines.end) : wordChunks),
+    [wordChunks, pacesLines, pacerLines]
+  );
+  const currentChunk = chunks.length > 0 ? chunks[findChunkIndex(chunks, currentIndex)] : null;
+  const currentText = currentChunk ? joinWords(words.slice(currentChunk.start, currentChunk.start + currentChunk.length)) : "";
+  const currentCue = currentChunk ? cueAt({ chapters, paragraphStarts, blocks, listItems }, currentChunk.start) : null;
+
+  // A block set to pause is shown as written in place of the flashed words
+  const handledBlock = handledBlockAt(blocks, structure, currentIndex);
+  const shownBlock = handledBlock && structure[handledBlock.kind] === 'pause' ? handledBlock : null;
+
+  useEffect(() => {
+    if (words.length > 0) onProgressRef.current?.(currentIndex);
+  }, [currentIndex, words.length]);
+
   const reset = () => {
+    if (!isFinished) trackerRef.current.noteRewind();
     setIsPlaying(false);
+    setIsFinished(false);
+    setShowQuiz(false);
+    setQuizResult(null);
+    setFinishedStats(null);
     setCurrentIndex(0);
+    sessionStartRef.current = 0;
+  };
+
+  // Where playback last was; a position that differs on resume was chosen while paused
+  const playedIndexRef = useRef(-1);
+  if (isPlaying) playedIndexRef.current = currentIndex;
+
+  const togglePlay = () => {
+    if (isFinished) {
+      reset();
+      setIsPlaying(true);
+      return;
+    }
+    if (isPlaying) trackerRef.current.notePause();
+    else if (handledBlock) {
+      // Carry on after the block on screen (or the skipped one the position is in)
+      const after = skipBlocks(blocks, structure, handledBlock.endIndex);
+      if (after >= words.length) {
+        finish();
+        return;
+      }
+      seek(after);
+    } else if (replayOnResume && trackerRef.current.hasActivity() && currentIndex === playedIndexRef.current) {
+      // Replay only the sentence that was interrupted, not one the reader stepped or jumped to
+      seek(boundaryAt(sentenceStarts, currentIndex), { countRewind: false });
+    }
+    autoPausedRef.current = false;
+    setIsPlaying(!isPlaying);
   };
 
+  const toggleReplayOnResume = () => {
+    localStorage.setItem(REPLAY_STORAGE_KEY, String(!replayOnResume));
+    setReplayOnResume(!replayOnResume);
+  };
+
+  const finish = () => {
+    setIsPlaying(false);
+    setIsFinished(true);
+    trackerRef.current.stop();
+    setFinishedStats(trackerRef.current.stats());
+    endSession();
+  };
+
+  // Achieved speed: words actually flashed over the time spent playing
+  const achievedWpm = finishedStats ? playingWpm(finishedStats) : 0;
+
+  const handleQuizComplete = (result: QuizResult) => {
+    setQuizResult(result);
+    onQuizComplete?.(result);
+  };
+
+  // Positions are word indexes; seeking snaps to the start of the chunk containing the word.
+  // Going back counts as a rewind unless the reader didn't ask for it.
+  const seek = (wordIndex: number, { countRewind = true }: { countRewind?: boolean } = {}) => {
+    if (chunks.length === 0) return;
+    const clamped = Math.max(0, Math.min(words.length - 1, wordIndex));
+    const target = chunks[findChunkIndex(chunks, clamped)].start;
+    if (countRewind && target < currentIndex && !isFinished) trackerRef.current.noteRewind();
+    if (isFinished) sessionStartRef.current = target;
+    setCurrentIndex(target);
+    setIsFinished(false);
+    setShowQuiz(false);
+    setQuizResult(null);
+    setFinishedStats(null);
+  };
+
+  const jumpToChapter = (chapter: Chapter) => {
+    seek(chapter.startIndex);
+    setShowChapters(false);
+  };
+
+  // Moves to the next/previous sentence or paragraph start
+  const seekBoundary = (starts: number[], direction: 1 | -1) => {
+    if (direction < 0) {
+      seek(previousBoundary(starts, currentIndex));
+      return;
+    }
+    // Measure from the chunk's last word so a chunk spanning a boundary still moves forward
+    const from = currentChunk ? currentChunk.start + currentChunk.length - 1 : currentIndex;
+    const next = nextBoundary(starts, from);
+    if (next >= 0) seek(next);
+  };
+
+  const storeAnnotation = (annotation: Annotation) => {
+    setAnnotations(prev =>
+      [...prev.filter(a => a.id !== annotation.id), annotation].sort((a, b) => a.startIndex - b.startIndex || a.createdAt - b.createdAt)
+    );
+    saveAnnotation(annotation).catch(error => {
+      console.error("Error saving annotation:", error);
+      setAnnotationNotice("Could not save the highlight.");
+    });
+  };
+
+  const removeAnnotation = (annotation: Annotation) => {
+    setAnnotations(prev => prev.filter(a => a.id !== annotation.id));
+    deleteAnnotation(annotation.id).catch(error => console.error("Error deleting annotation:", error));
+  };
+
+  // Marks the sentence being read. Bookmarks save at once; highlights pause for a note
+  const markSentence = (kind: AnnotationKind) => {
+    if (!documentId || words.length === 0) return;
+    const start = boundaryAt(sentenceStarts, currentIndex);
+    const next = nextBoundary(sentenceStarts, start);
+    const annotation = createAnnotation(documentId, kind, words, start, next < 0 ? words.length : next, currentChapter?.title);
+    if (kind === 'bookmark') {
+      if (annotations.some(a => a.kind === 'bookmark' && a.startIndex === start)) {
+        setAnnotationNotice("Already bookmarked");
+        return;
+      }
+      storeAnnotation(annotation);
+      setAnnotationNotice("Bookmarked");
+      return;
+    }
+    if (isPlaying) {
+      trackerRef.current.notePause();
+      setIsPlaying(false);
+    }
+    setAnnotationDraft(annotation);
+  };
+
+  const jumpToAnnotation = (annotation: Annotation) => {
+    setIsPlaying(false);
+    seek(annotation.startIndex);
+  };
+
+  const exportAnnotations = (format: 'md' | 'json') => {
+    if (!documentId) return;
+    const slug = documentTitle.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '').slice(0, 40) || 'document';
+    const name = `speedyreader-highlights-${slug}-${dateStamp()}.${format}`;
+    if (format === 'md') downloadFile(name, annotationsToMarkdown(documentTitle, annotations, words.length), 'text/markdown');
+    else downloadFile(name, annotationsToJson(documentTitle, documentId, annotations, words.length), 'application/json');
+  };
+
+  const handleKeyBindingsChange = (next: KeyBindings) => {
+    setKeyBindings(next);
+    saveKeyBindings(next);
+  };
+
+  const handleProfilesChange = (next: ProfileStore) => {
+    setProfiles(next);
+    saveProfiles(next);
+    // Switching profiles applies its speed and sizes straight away
+    if (next.activeId === profiles.activeId || training) return;
+    const { reader } = activeProfile(next);
+    const ease = readingEaseRef.current;
+    const recommendedWpm = ease === null ? undefined : recommendWpm(ease, reader.wpm);
+    setSettings({ ...reader, wpm: recommendedWpm ?? reader.wpm, recommendedWpm });
+  };
+
+  // Speed and sizes the reader picks by hand are remembered in the active profile. The speed is
+  // stored for standard prose, without this text's readability factor, so it doesn't creep with every document
+  const saveReaderSettings = (patch: Partial<ReaderProfile['reader']>) => {
+    const ease = readingEaseRef.current;
+    if (patch.wpm !== undefined && ease !== null) patch = { ...patch, wpm: Math.round(patch.wpm / readabilityFactor(ease)) };
+    handleProfilesChange(updateProfile(profiles, { ...profile, reader: { ...profile.reader, ...patch } }));
+  };
+
+  // While training, the program owns the speed
   const handleSpeedChange = (delta: number) => {
-    setSettings(prev => ({ ...prev, wpm: Math.max(50, prev.wpm + delta) }));
+    if (training) return;
+    const wpm = Math.max(50, settings.wpm + delta);
+    setSettings(prev => ({ ...prev, wpm }));
+    saveReaderSettings({ wpm });
+  };
+
+  const startTraining = (program: TrainingProgram) => {
+    trainingWordsRef.current = 0;
+    setTraining(program);
+    setSettings(prev => ({ ...prev, wpm: programWpm(program, 0) }));
+    setShowTraining(false);
+  };
+
+  const handleNarrationChange = (next: NarrationSettings) => {
+    setNarration(next);
+    saveNarrationSettings(next);
+    setNarrationError(null);
+  };
+
+  const stopTraining = () => {
+    setTraining(null);
+    setShowTraining(false);
+  };
+
+  const handleChunkSizeChange = (chunkSize: number) => {
+    setSettings(prev => ({ ...prev, chunkSize }));
+    saveReaderSettings({ chunkSize });
   };
 
   const handleFontSizeChange = (delta: number) => {
-    setSettings(prev => ({ ...prev, fontSize: Math.max(1, Math.min(8, prev.fontSize + delta)) }));
-  };
-
-  // Scientific Delay Calculation
-  // Based on "Sentence Wrap-up" effects and word length processing loads
-  const calculateDelay = (word: string) => {
-    if (!word) return 60000 / settings.wpm;
-
-    // Base duration for a standard word
-    const baseDelay = 60000 / settings.wpm;
-    let duration = baseDelay;
-
-    // 1. Length Processing Factor
-    // Words longer than 6 letters take exponentially more time to recognize
-    if (word.length > 6) {
-      // Add ~10% time per char over 6, capped at 2x base speed
-      const penalty = Math.min((word.length - 6) * 0.1, 1.0);
-      duration *= (1 + penalty);
-    } 
-    // Very short words (high frequency) can be faster
-    else if (word.length < 3) {
-      duration *= 0.9;
+    const fontSize = Math.max(1, Math.min(8, settings.fontSize + delta));
+    setSettings(prev => ({ ...prev, fontSize }));
+    saveReaderSettings({ fontSize });
+  };
+
+  const handlePacingChange = (next: PacingSettings) => {
+    setPacing(next);
+    savePacingSettings(next);
+  };
+
+  const handleOrpChange = (next: OrpSettings) => {
+    setOrp(next);
+    saveOrpSettings(next);
+  };
+
+  const handleReadingModeChange = (next: ReadingModeSettings) => {
+    setReadingMode(next);
+    saveReadingMode(next);
+  };
+
+  const handleStructureChange = (next: StructureSettings) => {
+    setStructure(next);
+    saveStructureSettings(next);
+  };
+
+  // Per-word durations, summed from the end so any range is one subtraction
+  const timeline = useMemo(
+    () => buildTimeline(words, pacing.multipliers, language.language),
+    [words, pacing.multipliers, language.language]
+  );
+
+  const runAction = (action: ReaderAction) => {
+    switch (action) {
+      case 'togglePlay': togglePlay(); break;
+      case 'wordForward': {
+        // A block shown as written is stepped over as a whole
+        const end = shownBlock ? shownBlock.endIndex : currentChunk ? currentChunk.start + currentChunk.length : words.length;
+        if (end < words.length) seek(end);
+        break;
+      }
+      case 'wordBack': if (currentChunk) seek((shownBlock ? shownBlock.startIndex : currentChunk.start) - 1); break;
+      case 'sentenceForward': seekBoundary(sentenceStarts, 1); break;
+      case 'sentenceBack': seekBoundary(sentenceStarts, -1); break;
+      case 'paragraphForward': seekBoundary(paragraphStarts, 1); break;
+      case 'paragraphBack': seekBoundary(paragraphStarts, -1); break;
+      case 'speedUp': handleSpeedChange(25); break;
+      case 'speedDown': handleSpeedChange(-25); break;
+      case 'fontUp': handleFontSizeChange(0.5); break;
+      case 'fontDown': handleFontSizeChange(-0.5); break;
+      case 'restart': reset(); break;
+      case 'backToEdit': onBack(); break;
+      case 'showHelp': setShowHelp(true); break;
+      case 'commandPalette': setShowPalette(true); break;
+      case 'highlight': markSentence('highlight'); break;
+      case 'bookmark': markSentence('bookmark'); break;
+      case 'showAnnotations': setShowAnnotations(prev => !prev); break;
+      case 'toggleReadingMode': handleReadingModeChange({ ...readingMode, mode: isPacer ? 'rsvp' : 'pacer' }); break;
     }
+  };
+
+  // The listener is registered once; the ref always sees the latest closure
+  const runActionRef = useRef(runAction);
+  runActionRef.current = runAction;
+  const overlayOpenRef = useRef(false);
+  overlayOpenRef.current = showHelp || showPalette || showPacing || showOrp || showTraining || showNarration || showStructure || showProfiles || showQuiz || showTitleCard || !!annotationDraft;
+  const keyBindingsRef = useRef(keyBindings);
+  keyBindingsRef.current = keyBindings;
 
-    // 2. Numeric/Symbol Processing
-    // Numbers interrupt the phonological loop
-    if (/\d/.test(word)) {
-      duration *= 1.3;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (overlayOpenRef.current || (e.repeat && e.key === ' ')) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const combo = eventToCombo(e);
+      const action = combo ? findAction(keyBindingsRef.current, combo) : null;
+      if (!action) return;
+      e.preventDefault();
+      runActionRef.current(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const chunkItem = (start: number, length: number, wpm = settings.wpm): PlaybackItem => ({
+    // How long THIS chunk should stay on screen
+    delay: rangeDelay(timeline, start, start + length, wpm),
+    words: length,
+  });
+
+  // Flushed synchronously so the next chunk is painted in the frame that met its deadline
+  advanceRef.current = () => {
+    if (!currentChunk) return null;
+    trackerRef.current.advance(currentChunk.length);
+    const next = skipBlocks(blocks, structure, currentChunk.start + currentChunk.length);
+    if (next >= words.length) {
+      finish();
+      return null;
+    }
+    // Reaching a block set to pause stops playback with the block on screen
+    if (handledBlockAt(blocks, structure, next)) {
+      flushSync(() => {
+        setCurrentIndex(next);
+        setIsPlaying(false);
+      });
+      return null;
+    }
+    const nextChunk = chunks[findChunkIndex(chunks, next)];
+    scheduledIndexRef.current = nextChunk.start;
+    let wpm = settings.wpm;
+    if (training) {
+      trainingWordsRef.current += currentChunk.length;
+      wpm = programWpm(training, trainingWordsRef.current);
     }
+    flushSync(() => {
+      setCurrentIndex(next);
+      if (wpm !== settings.wpm) setSettings(prev => ({ ...prev, wpm }));
+    });
+    return chunkItem(nextChunk.start, nextChunk.length, wpm);
+  };
 
-    // 3. Sentence Wrap-up Effect (The most important for comprehension)
-    // The brain needs time to integrate the clause/sentence meaning.
-    const lastChar = word.slice(-1);
-    
-    if (/[.!?]/.test(lastChar) || word.includes('\n')) {
-      duration *= 2.2; // Strong pause for sentence end
-    } else if (/[,;:\-]/.test(lastChar)) {
-      duration *= 1.5; // Moderate pause for clause boundary
-    } else if (/[")]/.test(lastChar)) {
-      duration *= 1.2; // Slight pause for quote end
+  // Starts or stops the scheduler. Regular advances are already being timed;
+  // anything else that moves the position (seek, chunk size) restarts the chunk.
+  // While narrating, the voice sets the pace instead.
+  useEffect(() => {
+    const scheduler = schedulerRef.current;
+    if (!isPlaying || !currentChunk || narration.enabled) {
+      scheduler.stop();
+      return;
     }
+    if (scheduler.isRunning() && scheduledIndexRef.current === currentChunk.start) return;
+    scheduledIndexRef.current = currentChunk.start;
+    scheduler.restart(chunkItem(currentChunk.start, currentChunk.length));
+  }, [isPlaying, currentChunk, narration.enabled]);
 
-    return duration;
-  };
+  // Narration: word boundary events from the voice move the reader
+  const narrationCallbacksRef = useRef<NarrationCallbacks>({ onWord: () => {}, onEnd: () => {}, onError: () => {} });
+  const narratorRef = useRef(createNarrator({
+    onWord: (index) => narrationCallbacksRef.current.onWord(index),
+    onEnd: () => narrationCallbacksRef.current.onEnd(),
+    onError: (message) => narrationCallbacksRef.current.onError(message),
+  }));
+  const narratedIndexRef = useRef(-1); // Last word the voice reported
+  const narratedRateRef = useRef(0);
 
-  const step = useCallback(() => {
-    setCurrentIndex(prev => {
-      if (prev >= words.length - 1) {
-        setIsPlaying(false);
-        return prev;
+  useEffect(() => {
+    if (narration.enabled) loadVoices().then(setVoices);
+  }, [narration.enabled]);
+
+  const narrationVoice = pickVoice(voices, narration.language || language.language, narration.voiceURI);
+  const { rate: speechRate, reachableWpm, clamped: speechClamped } = narrationRate(settings.wpm, narrationVoice);
+
+  narrationCallbacksRef.current = {
+    onWord: (index) => {
+      const spoken = Math.max(0, index - narratedIndexRef.current);
+      if (spoken > 0) trackerRef.current.advance(spoken);
+      narratedIndexRef.current = index;
+      // A training program sets the speed here too; the new rate restarts the voice
+      if (training) {
+        trainingWordsRef.current += spoken;
+        const wpm = programWpm(training, trainingWordsRef.current);
+        if (wpm !== settings.wpm) setSettings(prev => ({ ...prev, wpm }));
       }
-      return prev + 1;
-    });
-  }, [words.length]);
+      // Moving past a skipped block restarts the voice after it; a paused one stops it
+      const next = skipBlocks(blocks, structure, index);
+      if (next >= words.length) {
+        finish();
+        return;
+      }
+      setCurrentIndex(next);
+      if (handledBlockAt(blocks, structure, next)) setIsPlaying(false);
+    },
+    onEnd: () => {
+      // Each reported word counts the ones before it; the last word spoken is still uncounted
+      trackerRef.current.advance(Math.max(0, words.length - narratedIndexRef.current));
+      finish();
+    },
+    onError: (message) => {
+      setNarrationError(message);
+      setIsPlaying(false);
+    },
+  };
 
+  // Speech can't change speed or position mid-utterance, so a seek or speed
+  // change restarts it from the current word
   useEffect(() => {
-    if (isPlaying && currentIndex < words.length) {
-      const currentWord = words[currentIndex];
-      // Calculate how long THIS word should stay on screen
-      const delay = calculateDelay(currentWord);
-
-      timerRef.current = setTimeout(() => {
-        step();
-      }, delay);
+    const narrator = narratorRef.current;
+    if (!narration.enabled || !isPlaying || words.length === 0) {
+      narrator.stop();
+      return;
     }
+    if (narrator.isSpeaking() && narratedIndexRef.current === currentIndex && narratedRateRef.current === speechRate) return;
+    narratedIndexRef.current = currentIndex;
+    narratedRateRef.current = speechRate;
+    setNarrationError(null);
+    narrator.speak(words, currentIndex, {
+      rate: speechRate,
+      voice: narrationVoice,
+      language: narration.language || language.language,
+      sentenceStarts,
+    });
+  }, [narration, isPlaying, currentIndex, speechRate, narrationVoice, words]);
 
-    return () => {
-      if (timerRef.current) clearTimeout(timerRef.current);
+  useEffect(() => {
+    const narrator = narratorRef.current;
+    return () => narrator.stop();
+  }, []);
+
+  useEffect(() => {
+    const scheduler = schedulerRef.current;
+    return () => scheduler.stop();
+  }, []);
+
+  // The theme and motion preference apply to the whole page while the reader is open
+  useEffect(() => {
+    const root = document.documentElement;
+    root.dataset.readerTheme = display.theme;
+    if (display.reducedMotion) root.dataset.reducedMotion = '';
+    else delete root.dataset.reducedMotion;
+  }, [display.theme, display.reducedMotion]);
+
+  useEffect(() => () => {
+    delete document.documentElement.dataset.readerTheme;
+    delete document.documentElement.dataset.reducedMotion;
+  }, []);
+
+  const isPlayingRef = useRef(isPlaying);
+  isPlayingRef.current = isPlaying;
+  const narrationEnabledRef = useRef(narration.enabled);
+  narrationEnabledRef.current = narration.enabled;
+
+  // Background tabs throttle timers and frames: pause while hidden and
+  // resume on return, replaying the chunk that was on screen in full
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        // Narration keeps going in the background, which is the point of listening
+        if (isPlayingRef.current && !narrationEnabledRef.current) {
+          autoPausedRef.current = true;
+          setIsPlaying(false);
+        }
+      } else if (autoPausedRef.current) {
+        autoPausedRef.current = false;
+        setIsPlaying(true);
+      }
     };
-  }, [isPlaying, currentIndex, words, settings.wpm, step]);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Presentation timing as measured by the scheduler, against what was scheduled
+  const timing = schedulerRef.current.timing();
 
-  const progress = words.length > 0 ? (currentIndex / words.length) * 100 : 0;
+  const currentChapterIndex = findChapterIndex(chapters, currentIndex);
+  const currentChapter = currentChapterIndex >= 0 ? chapters[currentChapterIndex] : null;
+
+  const progress = isFinished ? 100 : words.length > 0 ? (currentIndex / words.length) * 100 : 0;
   
-  // Approximate time remaining calculation
-  const wordsRemaining = words.length - currentIndex;
-  // Adjust remaining time estimate to account for the new variable delays (roughly 1.2x avg factor)
-  const timeRemaining = Math.ceil((wordsRemaining / (settings.wpm / 60)) * 1.2);
+  // Exact time remaining: the sum of every upcoming word's delay at the current speed,
+  // or at the speeds the training program will set, less the blocks that are never flashed
+  const unflashed = unflashedRanges(blocks, structure).filter(([start]) => start > currentIndex);
+  const playingMs = training
+    ? programRemainingMs(timeline, currentIndex, training, trainingWordsRef.current, unflashed)
+    : remainingMs(timeline, currentIndex, settings.wpm) -
+      unflashed.reduce((sum, [start, end]) => sum + rangeDelay(timeline, start, end, settings.wpm), 0);
+  const timeRemaining = isFinished ? 0 : Math.max(0, Math.ceil(playingMs / 1000));
+
+  // Whole-queue progress and time: what is left of this item plus every item still waiting
+  const queueEntry = queue ? queueEntries.find(entry => entry.id === queue.currentId) : undefined;
+  const nextEntry = queueEntry ? nextQueueItem(queueEntries, queueEntry.id) : null;
+  const queueTotals = queueEntry ? queueProgress(queueEntries, queueEntry.id, isFinished ? queueEntry.wordCount : currentIndex) : null;
 
   return (
-    <div className="flex flex-col h-full max-w-4xl mx-auto p-4 md:p-8">
+    <div
+      className="flex flex-col h-full max-w-4xl mx-auto p-4 md:p-8"
+      style={{
+        '--reader-font': fontFamily(display.font),
+        '--reader-letter-spacing': `${display.letterSpacing}em`,
+        '--reader-pivot': display.pivotColor,
+      } as React.CSSProperties}
+    >
       {/* Header */}
       <div className="flex justify-between items-center mb-8">
         <button 
@@ -130,36 +753,258 @@ const Reader: React.FC<ReaderProps> = ({ text, onBack }) => {
           <ArrowLeft size={20} />
           <span>Edit Text</span>
         </button>
-        <div className="text-slate-500 text-sm font-mono">
-          {currentIndex + 1} / {words.length} words
+        <div className="flex items-center gap-4">
+          {queueEntry && queueTotals && (
+            <div className="flex items-center gap-1">
+              <span
+                className="flex items-center gap-1.5 text-sm text-slate-400"
+                title={`${queueTotals.wordsDone} of ${queueTotals.totalWords} words in the queue`}
+              >
+                <ListOrdered size={16} className="text-blue-400" />
+                <span className="font-mono">{queueEntries.indexOf(queueEntry) + 1}/{queueEntries.length}</span>
+                <span className="text-slate-500">· {Math.round(queueTotals.fraction * 100)}%</span>
+              </span>
+              <button
+                onClick={() => onQueueAdvance?.(isFinished ? 'read' : 'skipped')}
+                className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                title={nextEntry ? `Skip to "${nextEntry.title}"` : 'Skip and finish the queue'}
+              >
+                <SkipForward size={20} />
+              </button>
+            </div>
+          )}
+          <div className="text-slate-500 text-sm font-mono">
+            {currentChunk ? currentChunk.start + currentChunk.length : 0} / {words.length} words
+          </div>
+          <button
+            onClick={() => runAction('toggleReadingMode')}
+            className={`p-2 rounded-lg transition-colors ${isPacer ? 'text-blue-400 bg-blue-600/10' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title={isPacer ? 'Pacer mode: switch to RSVP (M)' : 'RSVP mode: switch to pacer (M)'}
+          >
+            <BookOpen size={20} />
+          </button>
+          {documentId && (
+            <button
+              onClick={() => setShowAnnotations(!showAnnotations)}
+              className={`p-2 rounded-lg transition-colors ${showAnnotations ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+              title="Highlights and bookmarks (N)"
+            >
+              <Highlighter size={20} />
+            </button>
+          )}
+          <button
+            onClick={() => {
+              // The voice preview in the panel would cut off running narration
+              setIsPlaying(false);
+              setShowNarration(true);
+            }}
+            className={`p-2 rounded-lg transition-colors ${narration.enabled ? 'text-blue-400 bg-blue-600/10' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title="Narration"
+          >
+            <Volume2 size={20} />
+          </button>
+          <button
+            onClick={() => setShowTraining(true)}
+            className={`p-2 rounded-lg transition-colors ${training ? 'text-blue-400 bg-blue-600/10' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title="Speed training"
+          >
+            <Dumbbell size={20} />
+          </button>
+          {blocks.length > 0 && (
+            <button
+              onClick={() => setShowStructure(true)}
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+              title="Code, tables & links"
+            >
+              <Braces size={20} />
+            </button>
+          )}
+          <button
+            onClick={() => setShowProfiles(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title={`Reader profile: ${profile.name}`}
+          >
+            <UserRound size={20} />
+          </button>
+          <button
+            onClick={() => setShowOrp(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Pivot letter"
+          >
+            <Crosshair size={20} />
+          </button>
+          <button
+            onClick={() => setShowPacing(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Pacing"
+          >
+            <Gauge size={20} />
+          </button>
+          <button
+            onClick={() => setShowHelp(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Keyboard shortcuts (?)"
+          >
+            <Keyboard size={20} />
+          </button>
+          {chapters.length > 0 && (
+            <div className="relative">
+              <button
+                onClick={() => setShowChapters(!showChapters)}
+                className={`p-2 rounded-lg transition-colors ${showChapters ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                title="Chapters"
+              >
+                <List size={20} />
+              </button>
+              {showChapters && (
+                <div className="absolute right-0 top-full mt-2 w-72 max-h-96 overflow-y-auto bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-20 py-2">
+                  {chapters.map((chapter, i) => (
+                    <button
+                      key={`${chapter.startIndex}-${i}`}
+                      onClick={() => jumpToChapter(chapter)}
+                      className={`w-full text-left px-4 py-2 text-sm truncate transition-colors ${
+                        i === currentChapterIndex ? 'bg-blue-600/20 text-blue-300' : 'text-slate-300 hover:bg-slate-700'
+                      }`}
+                      style={{ paddingLeft: `${1 + (chapter.level - 1) * 0.75}rem` }}
+                      title={chapter.title}
+                    >
+                      {chapter.title}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Main Display Area */}
       <div className="flex-1 flex flex-col justify-center items-center relative min-h-[400px]">
         {/* Focus Guides */}
-        <div className="absolute w-full max-w-2xl h-64 border-y-2 border-slate-800/80 flex items-center justify-center pointer-events-none">
-           <div className="h-6 w-0.5 bg-red-500/10 absolute top-0"></div>
-           <div className="h-6 w-0.5 bg-red-500/10 absolute bottom-0"></div>
-        </div>
+        {!isPacer && !showTitleCard && display.focusGuide !== 'none' && (
+          <div
+            className={`absolute w-full max-w-2xl h-64 flex items-center justify-center pointer-events-none ${
+              display.focusGuide === 'lines' ? 'border-y-2' : display.focusGuide === 'box' ? 'border-2 rounded-2xl' : ''
+            }`}
+            style={{ borderColor: 'var(--reader-guide)' }}
+          >
+             <div className="h-6 w-0.5 absolute top-0 opacity-20" style={{ backgroundColor: 'var(--reader-pivot, #ef4444)' }}></div>
+             <div className="h-6 w-0.5 absolute bottom-0 opacity-20" style={{ backgroundColor: 'var(--reader-pivot, #ef4444)' }}></div>
+          </div>
+        )}
 
-        <WordDisplay 
-          word={words[currentIndex] || ""} 
-          fontSize={settings.fontSize} 
-        />
-        
-        {/* Subliminal Context - Removed generic 'Next' for cleaner focus, kept subtle */}
+        {annotationNotice && (
+          <div className="absolute top-8 z-10 px-3 py-1 rounded-full bg-slate-800/90 border border-slate-700 text-xs text-blue-200">
+            {annotationNotice}
+          </div>
+        )}
+
+        {currentChapter && (
+          <div className="absolute top-0 text-xs uppercase tracking-wider text-slate-600 truncate max-w-full">
+            {currentChapter.title}
+          </div>
+        )}
+
+        {showQuiz ? (
+          <QuizPanel
+            text={words.slice(sessionStartRef.current).join(' ')}
+            wpm={achievedWpm}
+            documentId={documentId}
+            onComplete={handleQuizComplete}
+            onClose={() => setShowQuiz(false)}
+          />
+        ) : showTitleCard && queueEntry ? (
+          <QueueTitleCard
+            entry={queueEntry}
+            position={queueEntries.indexOf(queueEntry) + 1}
+            count={queueEntries.length}
+            text={text}
+            wpm={settings.wpm}
+            autoSummarize={!!queue?.showSummaries}
+            onSummary={(summary) => onQueueSummary?.(queueEntry.id, summary)}
+            onStart={() => {
+              setShowTitleCard(false);
+              togglePlay();
+            }}
+            onSkip={() => onQueueAdvance?.('skipped')}
+          />
+        ) : shownBlock ? (
+          <StructuredBlockView block={shownBlock} onContinue={togglePlay} />
+        ) : pacerRange ? (
+          <PacerView
+            words={words}
+            {...pacerRange}
+            paragraphStarts={paragraphStarts}
+            highlightStart={currentChunk?.start ?? 0}
+            highlightLength={currentChunk?.length ?? 0}
+            // The RSVP size is for a single word; a page reads better much smaller
+            fontSize={settings.fontSize * 0.3}
+            direction={language.direction}
+            measureLines={readingMode.pacerUnit === 'line'}
+            reducedMotion={display.reducedMotion}
+            onLines={setPacerLines}
+            onSeek={seek}
+          />
+        ) : (
+          <WordDisplay 
+            word={currentText} 
+            fontSize={settings.fontSize} 
+            direction={language.direction}
+            orp={orp}
+            cue={currentCue}
+          />
+        )}
+
+        {isFinished && !showQuiz && (
+          <div className="absolute bottom-0 flex flex-col items-center gap-3 z-10">
+            <div className="text-sm text-slate-400">
+              Finished · {finishedStats?.wordsRead || 0} words at <span className="font-mono text-white">{Math.round(achievedWpm)}</span> WPM
+              {quizResult && (
+                <> · effective <span className="font-mono text-emerald-300">{quizResult.effectiveWpm}</span> WPM</>
+              )}
+            </div>
+            {!quizResult && <button
+              onClick={() => setShowQuiz(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600/20 hover:bg-emerald-600/30 ring-1 ring-emerald-500/40 rounded-lg text-sm text-emerald-300 transition-colors"
+            >
+              <Brain size={16} />
+              Take comprehension quiz
+            </button>}
+            {queueEntry && (
+              <button
+                onClick={() => onQueueAdvance?.('read')}
+                className="flex items-center gap-2 max-w-xs px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+              >
+                <SkipForward size={16} className="shrink-0" />
+                <span className="truncate">{nextEntry ? `Next: ${nextEntry.title}` : 'Finish queue'}</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {!isPlaying && !isFinished && !showQuiz && !showTitleCard && !shownBlock && !isPacer && currentChunk && (
+          <div className="absolute bottom-0 w-full flex justify-center z-10">
+            <ContextPeek
+              words={words}
+              {...contextRange({ sentenceStarts, paragraphStarts }, words.length, currentIndex)}
+              highlightStart={currentChunk.start}
+              highlightLength={currentChunk.length}
+              direction={language.direction}
+              onSeek={seek}
+            />
+          </div>
+        )}
       </div>
 
       {/* Controls */}
       <div className="bg-slate-800/80 rounded-2xl p-6 backdrop-blur-md border border-slate-700/50 mt-auto shadow-2xl">
         {/* Progress Bar */}
-        <div className="w-full bg-slate-700/50 h-3 rounded-full mb-6 overflow-hidden cursor-pointer group"
+        <div className="relative w-full bg-slate-700/50 h-3 rounded-full mb-6 overflow-hidden cursor-pointer group"
              onClick={(e) => {
                 const rect = e.currentTarget.getBoundingClientRect();
                 const x = e.clientX - rect.left;
                 const p = x / rect.width;
-                setCurrentIndex(Math.floor(p * words.length));
+                seek(Math.floor(p * words.length));
              }}
         >
           <div 
@@ -168,6 +1013,13 @@ const Reader: React.FC<ReaderProps> = ({ text, onBack }) => {
           >
              <div className="absolute right-0 top-0 bottom-0 w-1 bg-white/50 shadow-[0_0_10px_rgba(255,255,255,0.5)]"></div>
           </div>
+          {annotations.map(annotation => (
+            <div
+              key={annotation.id}
+              className={`absolute top-0 bottom-0 w-0.5 pointer-events-none ${annotation.kind === 'highlight' ? 'bg-amber-300/80' : 'bg-sky-300/80'}`}
+              style={{ left: `${(annotation.startIndex / Math.max(1, words.length)) * 100}%` }}
+            />
+          ))}
         </div>
 
         <div className="flex flex-col md:flex-row gap-6 justify-between items-center">
@@ -179,6 +1031,20 @@ const Reader: React.FC<ReaderProps> = ({ text, onBack }) => {
             >
               <RotateCcw size={24} />
             </button>
+            <button
+              onClick={() => seekBoundary(paragraphStarts, -1)}
+              className="p-2 rounded-full hover:bg-slate-700 text-slate-300 transition-colors"
+              title="Previous paragraph"
+            >
+              <ChevronsLeft size={22} />
+            </button>
+            <button
+              onClick={() => seekBoundary(sentenceStarts, -1)}
+              className="p-2 rounded-full hover:bg-slate-700 text-slate-300 transition-colors"
+              title="Previous sentence"
+            >
+              <ChevronLeft size={22} />
+            </button>
             
             <button 
               onClick={togglePlay}
@@ -190,14 +1056,22 @@ const Reader: React.FC<ReaderProps> = ({ text, onBack }) => {
             >
               {isPlaying ? <Pause size={32} fill="currentColor" /> : <Play size={32} fill="currentColor" className="ml-1" />}
             </button>
+
+            <button
+              onClick={toggleReplayOnResume}
+              className={`p-2 rounded-full transition-colors ${replayOnResume ? 'text-blue-400 bg-blue-600/10' : 'text-slate-500 hover:bg-slate-700'}`}
+              title={replayOnResume ? 'Replaying the interrupted sentence on resume' : 'Resume exactly where paused'}
+            >
+              <Repeat size={20} />
+            </button>
           </div>
 
           <div className="flex flex-col items-center gap-2 w-full md:w-auto bg-slate-900/50 p-3 rounded-xl border border-slate-700/50">
              <div className="flex items-center gap-4 text-slate-300 font-mono">
                 <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">WPM</span>
-                <button onClick={() => handleSpeedChange(-25)} className="hover:text-white p-1 text-slate-400 hover:bg-slate-800 rounded">-</button>
+                <button onClick={() => handleSpeedChange(-25)} disabled={!!training} className="hover:text-white p-1 text-slate-400 hover:bg-slate-800 rounded disabled:opacity-30">-</button>
                 <span className="text-xl font-bold w-16 text-center tabular-nums text-white">{settings.wpm}</span>
-                <button onClick={() => handleSpeedChange(25)} className="hover:text-white p-1 text-slate-400 hover:bg-slate-800 rounded">+</button>
+                <button onClick={() => handleSpeedChange(25)} disabled={!!training} className="hover:text-white p-1 text-slate-400 hover:bg-slate-800 rounded disabled:opacity-30">+</button>
              </div>
              <input 
                type="range" 
@@ -205,12 +1079,52 @@ const Reader: React.FC<ReaderProps> = ({ text, onBack }) => {
                max="1200" 
                step="25" 
                value={settings.wpm}
-               onChange={(e) => setSettings({...settings, wpm: Number(e.target.value)})}
-               className="w-full md:w-48 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+               disabled={!!training}
+               onChange={(e) => {
+                 setSettings({...settings, wpm: Number(e.target.value)});
+                 saveReaderSettings({ wpm: Number(e.target.value) });
+               }}
+               className="w-full md:w-48 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400 disabled:opacity-40"
              />
+             {settings.recommendedWpm && settings.recommendedWpm !== settings.wpm && !training && (
+               <button
+                 onClick={() => setSettings(prev => ({ ...prev, wpm: prev.recommendedWpm ?? prev.wpm }))}
+                 className="text-[10px] text-slate-500 hover:text-blue-300 transition-colors"
+                 title="Suggested by how easy the text is to read"
+               >
+                 Suggested: <span className="font-mono">{settings.recommendedWpm}</span> WPM
+               </button>
+             )}
           </div>
 
            <div className="flex items-center gap-2 text-slate-400">
+              <div className="flex items-center gap-1 bg-slate-900/50 p-1 rounded-lg border border-slate-700/50 mr-2" title="Words per flash">
+                {Array.from({ length: MAX_CHUNK_SIZE - MIN_CHUNK_SIZE + 1 }, (_, i) => MIN_CHUNK_SIZE + i).map(size => (
+                  <button
+                    key={size}
+                    onClick={() => {
+                      handleChunkSizeChange(size);
+                      if (isPacer) handleReadingModeChange({ ...readingMode, pacerUnit: 'words' });
+                    }}
+                    className={`w-8 h-8 rounded-md font-mono text-sm transition-colors ${
+                      settings.chunkSize === size && !(isPacer && readingMode.pacerUnit === 'line') ? 'bg-blue-600 text-white' : 'hover:text-white hover:bg-slate-700'
+                    }`}
+                  >
+                    {size}
+                  </button>
+                ))}
+                {isPacer && (
+                  <button
+                    onClick={() => handleReadingModeChange({ ...readingMode, pacerUnit: 'line' })}
+                    className={`px-2 h-8 rounded-md text-sm transition-colors ${
+                      readingMode.pacerUnit === 'line' ? 'bg-blue-600 text-white' : 'hover:text-white hover:bg-slate-700'
+                    }`}
+                    title="Pace a whole line at a time"
+                  >
+                    Line
+                  </button>
+                )}
+              </div>
               <button 
                 onClick={() => handleFontSizeChange(-0.5)} 
                 className="hover:text-white p-3 hover:bg-slate-700 rounded-lg transition-colors"
@@ -226,10 +1140,128 @@ const Reader: React.FC<ReaderProps> = ({ text, onBack }) => {
            </div>
         </div>
         
+        {narration.enabled && (narrationError || speechClamped) && (
+          <div className={`text-center mt-4 text-xs ${narrationError ? 'text-red-300' : 'text-amber-300'}`}>
+            {narrationError || `The voice can't reach ${settings.wpm} WPM; narrating at about ${reachableWpm} WPM.`}
+          </div>
+        )}
+
+        {training && (
+          <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-1 mt-4 text-xs text-slate-400">
+            <span className="flex items-center gap-1.5 text-blue-300">
+              <Dumbbell size={14} />
+              {training.name}
+            </span>
+            <span>{programPhase(training, trainingWordsRef.current)}</span>
+            <span>target <span className="font-mono text-white">{settings.wpm}</span> WPM</span>
+            <span>
+              live <span className="font-mono text-emerald-300">{isPlaying && timing.recentWpm > 0 ? Math.round(timing.recentWpm) : '–'}</span> WPM
+            </span>
+          </div>
+        )}
+
         <div className="text-center mt-4 text-xs font-mono text-slate-500">
           {timeRemaining < 60 ? `${timeRemaining} sec` : `${Math.floor(timeRemaining/60)} min ${timeRemaining%60} sec`} remaining
+          {queueTotals && queueTotals.wordsLeft > 0 && (
+            <span className="ml-3 text-slate-600">
+              · queue about {formatDuration(timeRemaining * 1000 + estimateMs(queueTotals.wordsLeft, settings.wpm))}
+            </span>
+          )}
+          {timing.presentations > 0 && (
+            <span
+              className="ml-3 text-slate-600"
+              title={`Scheduled ${Math.round(timing.scheduledWpm)} WPM including pacing pauses · max jitter ${timing.maxJitterMs.toFixed(1)} ms`}
+            >
+              · measured <span className="text-slate-400">{Math.round(timing.measuredWpm)}</span> / {Math.round(timing.scheduledWpm)} WPM · ±{timing.meanJitterMs.toFixed(1)} ms
+            </span>
+          )}
         </div>
       </div>
+
+      {showAnnotations && (
+        <AnnotationsSidebar
+          annotations={annotations}
+          currentIndex={currentIndex}
+          wordCount={words.length}
+          onJump={jumpToAnnotation}
+          onUpdate={storeAnnotation}
+          onDelete={removeAnnotation}
+          onExport={exportAnnotations}
+          onClose={() => setShowAnnotations(false)}
+        />
+      )}
+      {annotationDraft && (
+        <AnnotationDialog
+          annotation={annotationDraft}
+          onSave={(annotation) => {
+            storeAnnotation(annotation);
+            setAnnotationDraft(null);
+          }}
+          onClose={() => setAnnotationDraft(null)}
+        />
+      )}
+      {showHelp && (
+        <KeyboardHelp
+          bindings={keyBindings}
+          onChange={handleKeyBindingsChange}
+          onClose={() => setShowHelp(false)}
+        />
+      )}
+      {showNarration && (
+        <NarrationPanel
+          narration={narration}
+          documentLanguage={language.language === 'und' ? 'en' : language.language}
+          wpm={settings.wpm}
+          onChange={handleNarrationChange}
+          onClose={() => setShowNarration(false)}
+        />
+      )}
+      {showTraining && (
+        <TrainingPanel
+          activeProgramId={training?.id ?? null}
+          onStart={startTraining}
+          onStop={stopTraining}
+          onClose={() => setShowTraining(false)}
+        />
+      )}
+      {showStructure && (
+        <StructurePanel
+          structure={structure}
+          onChange={handleStructureChange}
+          onClose={() => setShowStructure(false)}
+        />
+      )}
+      {showProfiles && (
+        <ProfilesPanel
+          store={profiles}
+          onChange={handleProfilesChange}
+          onClose={() => setShowProfiles(false)}
+        />
+      )}
+      {showOrp && (
+        <OrpSettingsPanel
+          orp={orp}
+          onChange={handleOrpChange}
+          onClose={() => setShowOrp(false)}
+        />
+      )}
+      {showPacing && (
+        <PacingPanel
+          pacing={pacing}
+          onChange={handlePacingChange}
+          onClose={() => setShowPacing(false)}
+        />
+      )}
+      {showPalette && (
+        <CommandPalette
+          bindings={keyBindings}
+          chapters={chapters}
+          wordCount={words.length}
+          onAction={runAction}
+          onSeek={seek}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
     </div>
   );
 };
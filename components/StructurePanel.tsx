@@ -0,0 +1,57 @@
+import React from 'react';
+import { X, Braces } from 'lucide-react';
+import { StructureSettings } from '../types';
+import { STRUCTURE_KINDS, STRUCTURE_POLICIES } from '../services/structuredContent';
+
+interface StructurePanelProps {
+  structure: StructureSettings;
+  onChange: (structure: StructureSettings) => void;
+  onClose: () => void;
+}
+
+const StructurePanel: React.FC<StructurePanelProps> = ({ structure, onChange, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+    <div
+      className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+          <Braces size={20} className="text-blue-400" />
+          Code, tables &amp; links
+        </h2>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      {STRUCTURE_KINDS.map(kind => (
+        <div key={kind.id} className="flex flex-col gap-2">
+          <div>
+            <div className="text-sm text-slate-200">{kind.label}</div>
+            <div className="text-xs text-slate-500">{kind.description}</div>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {STRUCTURE_POLICIES.map(policy => (
+              <button
+                key={policy.id}
+                onClick={() => onChange({ ...structure, [kind.id]: policy.id })}
+                className={`px-2 py-2 rounded-lg text-xs transition-colors ${
+                  structure[kind.id] === policy.id ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-300 hover:bg-slate-700 border border-slate-700'
+                }`}
+              >
+                {policy.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-slate-500">
+        Pause &amp; show stops playback at the block and shows it as written; press play to carry on after it.
+      </p>
+    </div>
+  </div>
+);
+
+export default StructurePanel;
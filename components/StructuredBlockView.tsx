@@ -0,0 +1,77 @@
+import React from 'react';
+import { Code, Table, List, Link, Play } from 'lucide-react';
+import { ContentBlock } from '../services/textStructure';
+
+interface StructuredBlockViewProps {
+  block: ContentBlock;
+  onContinue: () => void;
+}
+
+const KIND_ICONS = { code: Code, table: Table, list: List, link: Link };
+const KIND_LABELS = { code: 'Code', table: 'Table', list: 'List', link: 'Link' };
+
+// A code block, table, list or link shown as written while playback waits
+const StructuredBlockView: React.FC<StructuredBlockViewProps> = ({ block, onContinue }) => {
+  const Icon = KIND_ICONS[block.kind];
+  const [header, ...rows] = block.rows || [];
+
+  return (
+    <div className="relative z-10 w-full max-w-2xl flex flex-col gap-3 bg-slate-900/95 border border-slate-700/50 rounded-xl p-5">
+      <div className="flex items-center gap-2 text-xs uppercase tracking-wider text-slate-500">
+        <Icon size={14} className="text-blue-400" />
+        {KIND_LABELS[block.kind]}
+        {block.language && <span className="normal-case tracking-normal font-mono text-slate-600">{block.language}</span>}
+        <button
+          onClick={onContinue}
+          className="ml-auto flex items-center gap-1.5 px-3 py-1 rounded-lg bg-blue-600 hover:bg-blue-500 text-white normal-case tracking-normal transition-colors"
+          title="Continue reading after this (Space)"
+        >
+          <Play size={12} fill="currentColor" />
+          Continue
+        </button>
+      </div>
+
+      <div className="max-h-72 overflow-auto text-sm text-slate-300">
+        {block.kind === 'code' && <pre className="font-mono leading-relaxed whitespace-pre">{block.lines.join('\n')}</pre>}
+
+        {block.kind === 'table' && header && (
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr>
+                {header.map((cell, i) => (
+                  <th key={i} className="px-3 py-1.5 border-b border-slate-600 font-semibold text-slate-200">{cell}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r} className="border-b border-slate-800">
+                  {row.map((cell, i) => (
+                    <td key={i} className="px-3 py-1.5">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {block.kind === 'list' && (
+          <div className="flex flex-col gap-1 leading-relaxed whitespace-pre-wrap">
+            {block.lines.map((line, i) => <div key={i}>{line}</div>)}
+          </div>
+        )}
+
+        {block.kind === 'link' && (
+          <div className="flex flex-col gap-1">
+            <span className="text-base text-slate-200">{block.lines[0]}</span>
+            <a href={block.href} target="_blank" rel="noopener noreferrer" className="text-sky-300 underline break-all hover:text-sky-200">
+              {block.href}
+            </a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StructuredBlockView;
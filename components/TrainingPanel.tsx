@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { X, Dumbbell, Play, Plus, Pencil, Trash2, Check, Copy } from 'lucide-react';
+import { TrainingKind, TrainingProgram } from '../types';
+import { TRAINING_KINDS, createTrainingProgram, listPrograms, saveProgram, deleteProgram } from '../services/training';
+import { createId } from '../services/storage';
+
+interface TrainingPanelProps {
+  activeProgramId: string | null;
+  onStart: (program: TrainingProgram) => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/60";
+
+// One-line summary of a program's parameters
+const describe = (p: TrainingProgram) => {
+  switch (p.kind) {
+    case 'ramp': return `${p.startWpm} → ${p.targetWpm} WPM over ${p.segmentWords} words`;
+    case 'intervals': return `${p.segmentWords} words at ${p.targetWpm}, ${p.recoveryWords} at ${p.startWpm} WPM`;
+    case 'push': return `${p.startWpm} → ${p.targetWpm} WPM, +${p.stepWpm} every ${p.segmentWords} words`;
+  }
+};
+
+const TrainingPanel: React.FC<TrainingPanelProps> = ({ activeProgramId, onStart, onStop, onClose }) => {
+  const [programs, setPrograms] = useState<TrainingProgram[]>([]);
+  const [editing, setEditing] = useState<TrainingProgram | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () =>
+    listPrograms()
+      .then(setPrograms)
+      .catch(e => {
+        console.error("Error loading training programs:", e);
+        setError("Could not load saved programs.");
+      });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const update = (patch: Partial<TrainingProgram>) => setEditing(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await saveProgram({ ...editing, name: editing.name.trim() || TRAINING_KINDS[editing.kind].label });
+      setEditing(null);
+      refresh();
+    } catch (e) {
+      console.error("Error saving training program:", e);
+      setError("Could not save the program.");
+    }
+  };
+
+  const handleDelete = async (program: TrainingProgram) => {
+    if (!window.confirm(`Delete "${program.name}"?`)) return;
+    try {
+      await deleteProgram(program.id);
+      refresh();
+    } catch (e) {
+      console.error("Error deleting training program:", e);
+      setError("Could not delete the program.");
+    }
+  };
+
+  const numberField = (label: string, key: 'startWpm' | 'targetWpm' | 'segmentWords' | 'recoveryWords' | 'stepWpm') => (
+    <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+      {label}
+      <input
+        type="number"
+        min={key === 'stepWpm' ? 5 : 1}
+        value={editing![key]}
+        onChange={(e) => update({ [key]: Math.max(0, Number(e.target.value)) })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-6 flex flex-col gap-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+            <Dumbbell size={20} className="text-blue-400" />
+            Speed training
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="text-xs p-2 rounded-lg border bg-red-900/20 border-red-500/50 text-red-200">{error}</div>
+        )}
+
+        {editing ? (
+          <div className="flex flex-col gap-3">
+            <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+              Name
+              <input value={editing.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1.5 text-xs text-slate-400">
+              Type
+              <select
+                value={editing.kind}
+                onChange={(e) => {
+                  // Each type starts from its own sensible numbers
+                  const kind = e.target.value as TrainingKind;
+                  setEditing(prev => prev && { ...createTrainingProgram(kind), id: prev.id, name: prev.name });
+                }}
+                className={inputClass}
+              >
+                {(Object.keys(TRAINING_KINDS) as TrainingKind[]).map(kind => (
+                  <option key={kind} value={kind}>{TRAINING_KINDS[kind].label}</option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-slate-500">{TRAINING_KINDS[editing.kind].description}</p>
+            <div className="grid grid-cols-2 gap-3">
+              {editing.kind === 'intervals' ? (
+                <>
+                  {numberField('Sprint WPM', 'targetWpm')}
+                  {numberField('Sprint length (words)', 'segmentWords')}
+                  {numberField('Recovery WPM', 'startWpm')}
+                  {numberField('Recovery length (words)', 'recoveryWords')}
+                </>
+              ) : (
+                <>
+                  {numberField('Start WPM', 'startWpm')}
+                  {numberField('Target WPM', 'targetWpm')}
+                  {numberField(editing.kind === 'ramp' ? 'Ramp length (words)' : 'Words per step', 'segmentWords')}
+                  {editing.kind === 'push' && numberField('WPM per step', 'stepWpm')}
+                </>
+              )}
+            </div>
+            <div className="flex gap-2 justify-end">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm text-slate-300 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm text-white font-medium transition-colors"
+              >
+                <Check size={16} />
+                Save
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <ul className="flex flex-col gap-2">
+              {programs.map(program => (
+                <li
+                  key={program.id}
+                  className={`flex items-center gap-3 p-3 rounded-xl border ${
+                    program.id === activeProgramId ? 'border-blue-500/60 bg-blue-600/10' : 'border-slate-700 bg-slate-900/50'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-slate-200 truncate">{program.name}</div>
+                    <div className="text-xs text-slate-500 truncate">{TRAINING_KINDS[program.kind].label} · {describe(program)}</div>
+                  </div>
+                  {program.builtIn ? (
+                    <button
+                      onClick={() => setEditing({ ...program, id: createId(), name: `${program.name} (copy)`, builtIn: false })}
+                      className="p-1.5 text-slate-500 hover:text-white rounded"
+                      title="Customize a copy"
+                    >
+                      <Copy size={14} />
+                    </button>
+                  ) : (
+                    <>
+                      <button onClick={() => setEditing(program)} className="p-1.5 text-slate-500 hover:text-white rounded" title="Edit">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => handleDelete(program)} className="p-1.5 text-slate-500 hover:text-red-400 rounded" title="Delete">
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => onStart(program)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 rounded-lg text-xs text-white transition-colors"
+                  >
+                    <Play size={12} fill="currentColor" />
+                    {program.id === activeProgramId ? 'Restart' : 'Start'}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex gap-2 justify-between">
+              <button
+                onClick={() => setEditing(createTrainingProgram())}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+              >
+                <Plus size={14} />
+                New program
+              </button>
+              {activeProgramId && (
+                <button
+                  onClick={onStop}
+                  className="px-3 py-1.5 text-sm text-amber-400 hover:bg-amber-500/10 rounded-lg transition-colors"
+                >
+                  Stop training
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrainingPanel;
@@ -1,56 +1,111 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { OrpSettings } from '../types';
+import { scriptOf, TextDirection } from '../services/language';
+import { findPivotIndex, DEFAULT_ORP_SETTINGS } from '../services/orp';
+import { WordCue } from '../services/textStructure';
 
 interface WordDisplayProps {
-  word: string;
+  word: string; // A single word or a multi-word chunk
   fontSize: number;
+  direction?: TextDirection;
+  orp?: OrpSettings;
+  cue?: WordCue | null; // Heading, list item, code, table cell or link
 }
 
-const WordDisplay: React.FC<WordDisplayProps> = ({ word, fontSize }) => {
-  // Logic to find the Optimal Recognition Point (ORP)
-  // Scientific consensus suggests ~35% into the word is the Optimal Viewing Position (OVP)
-  const { left, pivot, right } = useMemo(() => {
-    if (!word) return { left: '', pivot: '', right: '' };
+const CUE_LABELS: Record<WordCue['kind'], string> = {
+  heading: 'Heading',
+  listItem: 'List',
+  code: 'Code',
+  table: 'Table',
+  link: 'Link',
+};
+
+// Words take the theme's text colour unless their cue sets one
+const CUE_TEXT_CLASSES: Record<WordCue['kind'], string> = {
+  heading: 'text-[color:var(--reader-strong)] font-bold',
+  listItem: '',
+  code: 'text-emerald-400/90',
+  table: '',
+  link: 'text-sky-400 underline decoration-sky-400/50 underline-offset-[0.15em]',
+};
+
+// Zero-width joiner: keeps Arabic letters in their connected forms across the split spans
+const ZWJ = '\u200D';
 
-    const len = word.length;
-    let pivotIndex = 0;
+const WordDisplay: React.FC<WordDisplayProps> = ({ word, fontSize, direction = 'ltr', orp = DEFAULT_ORP_SETTINGS, cue = null }) => {
+  const lineRef = useRef<HTMLDivElement | null>(null);
+  const pivotRef = useRef<HTMLSpanElement | null>(null);
 
-    // Adjusted for "Left of Center" preference in reading science
-    if (len === 1) pivotIndex = 0;
-    else if (len >= 2 && len <= 5) pivotIndex = 1;
-    else if (len >= 6 && len <= 9) pivotIndex = 2;
-    else if (len >= 10 && len <= 13) pivotIndex = 3;
-    else pivotIndex = Math.floor((len - 1) * 0.35); // Generic fallback for very long words
+  const { left, pivot, right } = useMemo(() => {
+    const pivotIndex = findPivotIndex(word, orp);
+    if (pivotIndex < 0) return { left: word, pivot: '', right: '' };
 
     const leftPart = word.slice(0, pivotIndex);
     const pivotChar = word[pivotIndex];
     const rightPart = word.slice(pivotIndex + 1);
 
+    if (scriptOf(word) === 'arabic') {
+      return { left: leftPart && leftPart + ZWJ, pivot: ZWJ + pivotChar + ZWJ, right: rightPart && ZWJ + rightPart };
+    }
     return { left: leftPart, pivot: pivotChar, right: rightPart };
-  }, [word]);
+  }, [word, orp]);
+
+  // Shifts the line so the middle of the rendered pivot glyph sits exactly on
+  // the center line, whatever the widths of the surrounding glyphs. Measured
+  // in the layout phase and applied directly, so it never paints misaligned.
+  const align = () => {
+    const line = lineRef.current;
+    if (!line) return;
+    const pivotEl = pivotRef.current;
+    if (!pivotEl || !pivot) {
+      line.style.transform = 'translateX(-50%)';
+      return;
+    }
+    const lineRect = line.getBoundingClientRect();
+    const pivotRect = pivotEl.getBoundingClientRect();
+    const pivotCenter = pivotRect.left + pivotRect.width / 2 - lineRect.left;
+    line.style.transform = `translateX(${-pivotCenter}px)`;
+  };
+
+  // List items keep their bullet or number in front of the word
+  const marker = cue?.kind === 'listItem' ? cue.marker : '';
+  useLayoutEffect(align, [left, pivot, right, fontSize, direction, marker]);
+
+  // Web fonts may finish loading after the first measurement
+  useEffect(() => {
+    document.fonts?.ready.then(align);
+  }, []);
 
   return (
-    <div 
-      className="reader-font flex items-baseline justify-center select-none w-full"
-      style={{ fontSize: `${fontSize}rem`, lineHeight: 1 }}
+    <div
+      className="reader-font relative select-none w-full"
+      style={{ fontSize: `${fontSize}rem`, lineHeight: 1, height: '1em' }}
+      dir={direction}
     >
-      {/* 
-        Using flex-1 with text-align ensures the 'gap' stays perfectly centered 
-        regardless of the pivot character's width.
-      */}
-      <div className="flex-1 text-right text-slate-400 whitespace-nowrap overflow-visible">
-        {left}
-      </div>
-      
-      {/* The Pivot is the anchor. Fixed width container to prevent jitter. */}
-      <div className="w-[1ch] text-center flex justify-center text-red-500 font-bold transform scale-110 z-10">
-        {pivot}
-      </div>
-      
-      <div className="flex-1 text-left text-slate-400 whitespace-nowrap overflow-visible">
-        {right}
+      {cue && (
+        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 px-2 py-0.5 rounded-full bg-slate-800/80 text-[10px] uppercase tracking-wider text-slate-500 whitespace-nowrap">
+          {CUE_LABELS[cue.kind]}
+          {cue.kind === 'heading' && ` ${cue.level}`}
+        </div>
+      )}
+      {/* Anchored at the center; align() moves the pivot onto the anchor */}
+      <div
+        ref={lineRef}
+        className={`absolute top-0 left-1/2 whitespace-pre ${cue ? CUE_TEXT_CLASSES[cue.kind] : ''}`}
+        style={{ color: cue && CUE_TEXT_CLASSES[cue.kind] ? undefined : 'var(--reader-text)' }}
+        dir={direction}
+      >
+        {marker && (
+          <span className="text-blue-400/70" style={{ marginInlineEnd: '0.4em' }}>
+            {marker}
+          </span>
+        )}
+        <span>{left}</span>
+        {pivot && <span ref={pivotRef} className="font-bold" style={{ color: 'var(--reader-pivot, #ef4444)' }}>{pivot}</span>}
+        <span>{right}</span>
       </div>
     </div>
   );
 };
 
-export default WordDisplay;
\ No newline at end of file
+export default WordDisplay;
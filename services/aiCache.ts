@@ -0,0 +1,39 @@
+import { STORES, getAllRecords, getRecord, putRecord, deleteRecord } from './storage';
+
+// AI results keyed by a hash of the task, model and prompt, so running the
+// same transform over the same text again is answered locally.
+
+interface CachedResult {
+  id: string; // SHA-256 of the request
+  task: string;
+  result: string;
+  createdAt: number;
+}
+
+const MAX_ENTRIES = 500;
+
+let pruned = false;
+
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedResult = async (key: string): Promise<string | undefined> =>
+  (await getRecord<CachedResult>(STORES.aiResults, key))?.result;
+
+// Once per session, drop the oldest results beyond the limit
+const pruneCache = async () => {
+  const entries = await getAllRecords<CachedResult>(STORES.aiResults);
+  if (entries.length <= MAX_ENTRIES) return;
+  const oldest = entries.sort((a, b) => b.createdAt - a.createdAt).slice(MAX_ENTRIES);
+  await Promise.all(oldest.map(entry => deleteRecord(STORES.aiResults, entry.id)));
+};
+
+export const cacheResult = async (key: string, task: string, result: string): Promise<void> => {
+  await putRecord<CachedResult>(STORES.aiResults, { id: key, task, result, createdAt: Date.now() });
+  if (!pruned) {
+    pruned = true;
+    await pruneCache();
+  }
+};
@@ -0,0 +1,99 @@
+import { GoogleGenAI } from "@google/genai";
+import { AISettings } from '../types';
+import { buildClozeQuiz } from './quiz';
+
+export type AITask = 'summarize' | 'brief' | 'practice' | 'optimize' | 'quiz';
+
+export interface AIRequest {
+  task: AITask;
+  prompt: string; // Full prompt sent to language models
+  input: string; // Raw task input (source text or topic), used by the mock
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  generate: (request: AIRequest) => Promise<string>;
+}
+
+const createGeminiProvider = ({ apiKey, model }: AISettings): AIProvider => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  return {
+    generate: async ({ prompt, signal }) => {
+      if (!ai) throw new Error("API Key not found");
+      const response = await ai.models.generateContent({ model, contents: prompt, config: { abortSignal: signal } });
+      return response.text || "";
+    },
+  };
+};
+
+// Works with any server exposing the OpenAI chat completions API (Ollama, LM Studio, vLLM, ...)
+const createOpenAICompatibleProvider = ({ apiKey, model, baseUrl }: AISettings): AIProvider => ({
+  generate: async ({ prompt, signal }) => {
+    if (!baseUrl) throw new Error("Base URL not set");
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }] }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Request failed (${response.status}): ${await response.text()}`);
+    }
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || "";
+  },
+});
+
+const firstSentence = (paragraph: string) => {
+  const match = /^.*?[.!?](\s|$)/s.exec(paragraph.trim());
+  return (match ? match[0] : paragraph).trim();
+};
+
+// Deterministic, offline stand-in for tests and demos: the same input always gives the same output
+const createMockProvider = (): AIProvider => ({
+  generate: async ({ task, input, signal }) => {
+    signal?.throwIfAborted();
+    switch (task) {
+      case 'summarize':
+        return input
+          .split(/\n\s*\n/)
+          .map(firstSentence)
+          .filter(Boolean)
+          .join('\n\n');
+      case 'brief':
+        return input
+          .split(/\n\s*\n/)
+          .map(firstSentence)
+          .filter(Boolean)
+          .slice(0, 3)
+          .join(' ');
+      case 'practice':
+        return [
+          `${input} is a subject that rewards careful attention.`,
+          `This practice passage about ${input.toLowerCase()} was produced by the offline mock provider.`,
+          `It keeps a steady rhythm of short and long sentences, so you can focus on holding your gaze on the red letter while the words arrive one after another.`,
+          `Read it a few times at increasing speeds and notice how much you still remember.`,
+        ].join(' ');
+      case 'quiz':
+        return JSON.stringify(buildClozeQuiz(input));
+      case 'optimize':
+      default:
+        return input;
+    }
+  },
+});
+
+export const createProvider = (settings: AISettings): AIProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
@@ -0,0 +1,151 @@
+import { createProvider, AIRequest } from './aiProviders';
+import { loadAISettings } from './aiSettings';
+import { parseQuizResponse, DEFAULT_QUESTION_COUNT } from './quiz';
+import { hashContent, getCachedResult, cacheResult } from './aiCache';
+import { practicePrompt, resolveTopic } from './practice';
+import { PracticeOptions, QuizQuestion } from '../types';
+
+// Settings are read on every call so changes in the settings panel apply immediately
+const generate = (request: AIRequest): Promise<string> => createProvider(loadAISettings()).generate(request);
+
+// Text transforms are reused: the same prompt to the same model returns the cached result
+const generateCached = async (request: AIRequest): Promise<string> => {
+  const settings = loadAISettings();
+  let key: string | null = null;
+  try {
+    key = await hashContent([request.task, settings.provider, settings.model, request.prompt].join('\n'));
+    const cached = await getCachedResult(key);
+    if (cached) return cached;
+  } catch (error) {
+    // Without a cache (no IndexedDB or crypto.subtle) every request goes to the provider
+    console.error("Error reading AI cache:", error);
+  }
+  const response = await createProvider(settings).generate(request);
+  if (key && response) {
+    cacheResult(key, request.task, response).catch(error => console.error("Error caching AI result:", error));
+  }
+  return response;
+};
+
+export const summarizeText = async (text: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    const response = await generateCached({
+      task: 'summarize',
+      input: text,
+      signal,
+      prompt: `Summarize the following text to be concise and optimized for speed reading. Remove filler words while keeping the core meaning. 
+      
+      Text:
+      ${text}`,
+    });
+    
+    // Throw instead of returning a placeholder, so a part of a long document never gets replaced by it
+    if (!response) throw new Error("Could not generate summary.");
+    return response;
+  } catch (error) {
+    console.error("Error summarizing text:", error);
+    throw error;
+  }
+};
+
+// Title cards only need the gist, which the opening of a long text carries
+const BRIEF_MAX_CHARS = 12000;
+
+export const briefSummary = async (text: string, signal?: AbortSignal): Promise<string> => {
+  const excerpt = text.slice(0, BRIEF_MAX_CHARS);
+  try {
+    const response = await generateCached({
+      task: 'brief',
+      input: excerpt,
+      signal,
+      prompt: `Summarize the text below in 2 or 3 short sentences, so a reader knows what it is about before reading it in full.
+      Write in the EXACT same language as the text. Respond with the summary only.
+      
+      Text:
+      ${excerpt}`,
+    });
+
+    if (!response) throw new Error("Could not generate summary.");
+    return response.trim();
+  } catch (error) {
+    console.error("Error summarizing text:", error);
+    throw error;
+  }
+};
+
+export const generatePracticeText = async (options: PracticeOptions): Promise<string> => {
+  try {
+    const topic = resolveTopic(options);
+    const response = await generate({
+      task: 'practice',
+      input: topic,
+      prompt: practicePrompt(options, topic),
+    });
+    
+    return response || "Could not generate text.";
+  } catch (error) {
+    console.error("Error generating text:", error);
+    throw error;
+  }
+};
+
+export const optimizeForSpeedReading = async (text: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    const response = await generateCached({
+      task: 'optimize',
+      input: text,
+      signal,
+      prompt: `You are an expert Text-to-RSVP (Rapid Serial Visual Presentation) pre-processor.
+      
+      Your goal is to convert the input text into a format that reduces cognitive load during high-speed serial reading, WITHOUT removing any information.
+      
+      SCIENTIFIC RULES FOR RSVP OPTIMIZATION:
+      1. **NO INFORMATION LOSS**: Do not summarize. Do not remove filler words. Keep every single detail and nuance of the original text.
+      2. **NUMBERS TO TEXT**: The brain processes words faster than digits in RSVP. Convert ALL numbers, dates, and currency to their spoken text equivalent.
+         - Example (PT): "25/12/2021" -> "vinte e cinco de dezembro de dois mil e vinte e um"
+         - Example (EN): "$50" -> "fifty dollars"
+      3. **SYMBOLS TO TEXT**: Expand "%", "&", "@", "°" to full words (e.g., "degrees", "percent", "at").
+      4. **ABBREVIATIONS**: Expand abbreviations that require pause to decode (e.g., "approx." -> "approximately", "etc." -> "et cetera").
+      5. **LANGUAGE DETECTION**: Output in the EXACT same language as the input.
+      
+      Input Text:
+      ${text}`,
+    });
+    
+    if (!response) throw new Error("Could not optimize text.");
+    return response;
+  } catch (error) {
+    console.error("Error optimizing text:", error);
+    throw error;
+  }
+};
+
+// Only the most recent part of very long texts is quizzed; it is what the reader just finished
+const QUIZ_MAX_CHARS = 12000;
+
+export const generateQuiz = async (text: string, count = DEFAULT_QUESTION_COUNT, signal?: AbortSignal): Promise<QuizQuestion[]> => {
+  const excerpt = text.length > QUIZ_MAX_CHARS ? text.slice(-QUIZ_MAX_CHARS) : text;
+  try {
+    const response = await generate({
+      task: 'quiz',
+      input: excerpt,
+      signal,
+      prompt: `Write ${count} multiple-choice questions that test comprehension of the text below.
+      
+      RULES:
+      1. Ask about the main ideas, facts and conclusions, not trivia about wording.
+      2. Each question has exactly 4 options and only one correct answer.
+      3. Write the questions and options in the EXACT same language as the text.
+      4. Respond with ONLY a JSON array, no commentary, in this shape:
+         [{"question": "...", "options": ["...", "...", "...", "..."], "answerIndex": 0}]
+      
+      Text:
+      ${excerpt}`,
+    });
+
+    return parseQuizResponse(response);
+  } catch (error) {
+    console.error("Error generating quiz:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { AIProviderId, AISettings } from '../types';
+import { loadJson, saveJson } from './localSettings';
+
+const STORAGE_KEY = 'speedyreader.aiSettings';
+
+export const PROVIDER_DEFAULTS: Record<AIProviderId, Omit<AISettings, 'apiKey'> & { label: string }> = {
+  gemini: { provider: 'gemini', label: 'Google Gemini', model: 'gemini-3-flash-preview', baseUrl: '' },
+  openai: { provider: 'openai', label: 'OpenAI-compatible (e.g. Ollama)', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+  mock: { provider: 'mock', label: 'Offline mock', model: 'mock', baseUrl: '' },
+};
+
+export const defaultAISettings = (provider: AIProviderId = 'gemini'): AISettings => {
+  const { label, ...defaults } = PROVIDER_DEFAULTS[provider];
+  return { ...defaults, apiKey: '' };
+};
+
+// Settings live in localStorage so they are picked at runtime, per browser
+export const loadAISettings = (): AISettings =>
+  loadJson<AISettings>(
+    STORAGE_KEY,
+    stored => (stored.provider && stored.provider in PROVIDER_DEFAULTS ? { ...defaultAISettings(stored.provider), ...stored } : null),
+    () => defaultAISettings()
+  );
+
+export const saveAISettings = (settings: AISettings) => saveJson(STORAGE_KEY, settings);
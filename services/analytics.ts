@@ -0,0 +1,106 @@
+import { ReadingSession } from '../types';
+
+export interface SessionTotals {
+  sessionCount: number;
+  wordsRead: number;
+  activeMs: number;
+  averageWpm: number; // Weighted by words, over total session time
+  bestWpm: number;
+}
+
+export interface DailyStats {
+  day: string; // YYYY-MM-DD, local time
+  wordsRead: number;
+  averageWpm: number;
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export const summarizeSessions = (sessions: ReadingSession[]): SessionTotals => {
+  const wordsRead = sessions.reduce((sum, s) => sum + s.wordsRead, 0);
+  const elapsedMs = sessions.reduce((sum, s) => sum + (s.endedAt - s.startedAt), 0);
+  return {
+    sessionCount: sessions.length,
+    wordsRead,
+    activeMs: sessions.reduce((sum, s) => sum + s.activeMs, 0),
+    averageWpm: elapsedMs > 0 ? Math.round((wordsRead / elapsedMs) * 60000) : 0,
+    bestWpm: sessions.reduce((best, s) => Math.max(best, s.averageWpm), 0),
+  };
+};
+
+const localDay = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// One entry per day with reading activity, oldest first
+export const groupByDay = (sessions: ReadingSession[]): DailyStats[] => {
+  const days = new Map<string, { wordsRead: number; elapsedMs: number }>();
+  sessions.forEach(s => {
+    const key = localDay(s.startedAt);
+    const day = days.get(key) || { wordsRead: 0, elapsedMs: 0 };
+    day.wordsRead += s.wordsRead;
+    day.elapsedMs += s.endedAt - s.startedAt;
+    days.set(key, day);
+  });
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, { wordsRead, elapsedMs }]) => ({
+      day,
+      wordsRead,
+      averageWpm: elapsedMs > 0 ? Math.round((wordsRead / elapsedMs) * 60000) : 0,
+    }));
+};
+
+export const wpmHistogram = (sessions: ReadingSession[], bucketSize = 50): HistogramBucket[] => {
+  if (sessions.length === 0) return [];
+  const speeds = sessions.map(s => s.averageWpm);
+  const first = Math.floor(Math.min(...speeds) / bucketSize);
+  const last = Math.floor(Math.max(...speeds) / bucketSize);
+  const buckets: HistogramBucket[] = [];
+  for (let b = first; b <= last; b++) {
+    buckets.push({ from: b * bucketSize, to: (b + 1) * bucketSize, count: 0 });
+  }
+  speeds.forEach(wpm => buckets[Math.floor(wpm / bucketSize) - first].count++);
+  return buckets;
+};
+
+const CSV_COLUMNS: { header: string; value: (s: ReadingSession) => string | number | undefined }[] = [
+  { header: 'started_at', value: s => new Date(s.startedAt).toISOString() },
+  { header: 'ended_at', value: s => new Date(s.endedAt).toISOString() },
+  { header: 'document', value: s => s.documentTitle },
+  { header: 'words_read', value: s => s.wordsRead },
+  { header: 'active_seconds', value: s => Math.round(s.activeMs / 1000) },
+  { header: 'average_wpm', value: s => s.averageWpm },
+  { header: 'pauses', value: s => s.pauseCount },
+  { header: 'rewinds', value: s => s.rewindCount },
+  { header: 'setting_wpm', value: s => s.settings.wpm },
+  { header: 'setting_chunk_size', value: s => s.settings.chunkSize },
+  { header: 'setting_font_size', value: s => s.settings.fontSize },
+  { header: 'effective_wpm', value: s => s.effectiveWpm },
+  { header: 'quiz_accuracy', value: s => s.quizAccuracy },
+];
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sessionsToCsv = (sessions: ReadingSession[]): string =>
+  [
+    CSV_COLUMNS.map(c => c.header).join(','),
+    ...sessions.map(s => CSV_COLUMNS.map(c => csvCell(c.value(s))).join(',')),
+  ].join('\n');
+
+export const sessionsToJson = (sessions: ReadingSession[]): string => JSON.stringify(sessions, null, 2);
+
+export const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes === 0 && ms > 0) return '< 1 min';
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
@@ -0,0 +1,103 @@
+import { Annotation, AnnotationKind } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord, createId } from './storage';
+import { joinWords } from './tokenizer';
+
+// Highlights and bookmarks saved while reading. Positions are word indexes;
+// the quote is kept too, so an edited document can still find each one.
+
+export const ANNOTATION_KINDS: Record<AnnotationKind, string> = {
+  highlight: 'Highlight',
+  bookmark: 'Bookmark',
+};
+
+export const createAnnotation = (
+  documentId: string,
+  kind: AnnotationKind,
+  words: string[],
+  startIndex: number,
+  endIndex: number,
+  chapterTitle?: string
+): Annotation => ({
+  id: createId(),
+  documentId,
+  kind,
+  startIndex,
+  endIndex,
+  quote: joinWords(words.slice(startIndex, endIndex)),
+  note: '',
+  chapterTitle,
+  createdAt: Date.now(),
+});
+
+// In reading order
+export const listAnnotations = async (documentId: string): Promise<Annotation[]> => {
+  const all = await getAllRecords<Annotation>(STORES.annotations);
+  return all.filter(a => a.documentId === documentId).sort((a, b) => a.startIndex - b.startIndex || a.createdAt - b.createdAt);
+};
+
+export const saveAnnotation = (annotation: Annotation): Promise<void> => putRecord(STORES.annotations, annotation);
+
+export const deleteAnnotation = (id: string): Promise<void> => deleteRecord(STORES.annotations, id);
+
+export const deleteDocumentAnnotations = async (documentId: string): Promise<void> => {
+  const all = await getAllRecords<Annotation>(STORES.annotations);
+  await Promise.all(all.filter(a => a.documentId === documentId).map(a => deleteRecord(STORES.annotations, a.id)));
+};
+
+/**
+ * Moves annotations whose quote is no longer at their position (the
+ * document was edited) to the nearest place the quote still appears.
+ * Returns only the ones that moved; quotes that are gone stay put.
+ */
+export const relocateAnnotations = (annotations: Annotation[], words: string[]): Annotation[] => {
+  const moved: Annotation[] = [];
+  for (const annotation of annotations) {
+    const length = annotation.endIndex - annotation.startIndex;
+    const matchesAt = (start: number) => joinWords(words.slice(start, start + length)) === annotation.quote;
+    if (matchesAt(annotation.startIndex)) continue;
+
+    let best = -1;
+    for (let i = 0; i + length <= words.length; i++) {
+      if (!annotation.quote.startsWith(words[i]) || !matchesAt(i)) continue;
+      if (best < 0 || Math.abs(i - annotation.startIndex) < Math.abs(best - annotation.startIndex)) best = i;
+    }
+    if (best >= 0) moved.push({ ...annotation, startIndex: best, endIndex: best + length });
+  }
+  return moved;
+};
+
+const percentOf = (annotation: Annotation, wordCount: number) =>
+  wordCount > 0 ? Math.round((annotation.startIndex / wordCount) * 100) : 0;
+
+export const annotationsToMarkdown = (title: string, annotations: Annotation[], wordCount: number): string => {
+  const count = `${annotations.length} ${annotations.length === 1 ? 'highlight or bookmark' : 'highlights and bookmarks'}`;
+  const lines = [`# ${title}`, '', `${count}, exported ${new Date().toLocaleString()}.`];
+  for (const annotation of annotations) {
+    const where = [`word ${annotation.startIndex + 1}`, `${percentOf(annotation, wordCount)}%`, annotation.chapterTitle]
+      .filter(Boolean)
+      .join(' · ');
+    lines.push('', `## ${ANNOTATION_KINDS[annotation.kind]} · ${where}`, '', ...annotation.quote.split('\n').map(line => `> ${line}`));
+    if (annotation.note.trim()) lines.push('', annotation.note.trim());
+  }
+  return lines.join('\n') + '\n';
+};
+
+export const annotationsToJson = (title: string, documentId: string, annotations: Annotation[], wordCount: number): string =>
+  JSON.stringify(
+    {
+      document: { id: documentId, title, wordCount },
+      exportedAt: new Date().toISOString(),
+      annotations: annotations.map(a => ({
+        kind: a.kind,
+        startIndex: a.startIndex,
+        endIndex: a.endIndex,
+        percent: percentOf(a, wordCount),
+        chapterTitle: a.chapterTitle,
+        quote: a.quote,
+        note: a.note,
+        createdAt: new Date(a.createdAt).toISOString(),
+      })),
+    },
+    null,
+    2
+  );
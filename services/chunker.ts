@@ -0,0 +1,97 @@
+// Groups words into 1-4 word "flashes" that follow phrase boundaries.
+// Positions stay in word indexes; a chunk is just a window over the word list.
+
+export interface Chunk {
+  start: number; // Index of the first word
+  length: number; // Number of words
+}
+
+export const MIN_CHUNK_SIZE = 1;
+export const MAX_CHUNK_SIZE = 4;
+
+// Keeps multi-word flashes narrow enough to stay inside the foveal span
+const MAX_CHUNK_CHARS = 24;
+
+// Words that lean on the following word ("of the", "in a"); a chunk should not end on them
+const FUNCTION_WORDS = new Set([
+  // English
+  'a', 'an', 'the', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into', 'onto', 'over',
+  'under', 'about', 'as', 'and', 'or', 'but', 'nor', 'than', 'that', 'if', 'so', 'my', 'your', 'his',
+  'her', 'its', 'our', 'their', 'this', 'these', 'those', 'very', 'not', 'no',
+  // Portuguese
+  'o', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'nos',
+  'nas', 'por', 'pelo', 'pela', 'para', 'com', 'e', 'ou', 'que', 'se', 'ao', 'à', 'aos', 'às', 'não',
+]);
+
+// Punctuation that triggers a pause ends the chunk, so pauses fall between flashes
+const endsPhrase = (word: string) => /[.!?,;:\-")\]]$/.test(word);
+
+const bare = (word: string) => word.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+const isCapitalized = (word: string) => /^["'(]?\p{Lu}/u.test(word);
+
+// Cost of ending a chunk between words[i - 1] and words[i]: 0 keeps phrases intact,
+// 1 strands a function word, 2 cuts through a name
+const splitCost = (words: string[], i: number) => {
+  const prev = words[i - 1];
+  const next = words[i];
+  if (!prev || !next || endsPhrase(prev)) return 0;
+  // Runs of capitalized words are usually one name ("New York", "United Nations")
+  if (isCapitalized(prev) && isCapitalized(next)) return 2;
+  if (FUNCTION_WORDS.has(bare(prev))) return 1;
+  return 0;
+};
+
+/**
+ * Builds chunks of up to `size` words. Chunks never cross a clause/sentence
+ * boundary or a forced break (e.g. a chapter start), and prefer not to split
+ * function words or proper names from their neighbours.
+ */
+export const buildChunks = (words: string[], size: number, breaks: number[] = []): Chunk[] => {
+  const maxSize = Math.max(MIN_CHUNK_SIZE, Math.min(MAX_CHUNK_SIZE, Math.round(size)));
+  const forced = new Set(breaks);
+  const chunks: Chunk[] = [];
+
+  let start = 0;
+  while (start < words.length) {
+    let end = start + 1;
+    let chars = words[start].length;
+
+    while (
+      end < words.length &&
+      end - start < maxSize &&
+      !forced.has(end) &&
+      !endsPhrase(words[end - 1]) &&
+      chars + 1 + words[end].length <= MAX_CHUNK_CHARS
+    ) {
+      chars += 1 + words[end].length;
+      end++;
+    }
+
+    // Back off to the latest, least damaging split point
+    if (end - start > 1 && end < words.length) {
+      let best = end;
+      for (let k = end - 1; k > start && splitCost(words, best) > 0; k--) {
+        if (splitCost(words, k) < splitCost(words, best)) best = k;
+      }
+      end = best;
+    }
+
+    chunks.push({ start, length: end - start });
+    start = end;
+  }
+
+  return chunks;
+};
+
+// Index of the chunk containing the given word (binary search over starts)
+export const findChunkIndex = (chunks: Chunk[], wordIndex: number): number => {
+  let lo = 0;
+  let hi = chunks.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (chunks[mid].start <= wordIndex) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
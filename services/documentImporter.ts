@@ -0,0 +1,409 @@
+import JSZip from 'jszip';
+import { DocumentFormat, ImportedDocument } from '../types';
+
+// Intermediate representation shared by all formats: a flat list of
+// paragraphs, some of which are headings (level 1-6).
+interface TextBlock {
+  text: string;
+  level?: number;
+}
+
+export const SUPPORTED_EXTENSIONS = ['.pdf', '.epub', '.docx', '.html', '.htm', '.xhtml', '.md', '.markdown', '.txt'];
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote', 'pre',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'tr', 'td', 'th', 'figure', 'figcaption', 'br', 'hr',
+]);
+const SKIP_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'math', 'nav']);
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const fileBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const detectFormat = (file: File): DocumentFormat | null => {
+  const ext = file.name.toLowerCase().split('.').pop() || '';
+  if (ext === 'pdf' || file.type === 'application/pdf') return 'pdf';
+  if (ext === 'epub' || file.type === 'application/epub+zip') return 'epub';
+  if (ext === 'docx') return 'docx';
+  if (ext === 'html' || ext === 'htm' || ext === 'xhtml' || file.type === 'text/html') return 'html';
+  if (ext === 'md' || ext === 'markdown' || file.type === 'text/markdown') return 'markdown';
+  if (ext === 'txt' || file.type === 'text/plain') return 'text';
+  return null;
+};
+
+const blocksToText = (blocks: TextBlock[]): string =>
+  blocks
+    .filter(b => b.text)
+    .map(b => (b.level ? `${'#'.repeat(b.level)} ${b.text}` : b.text))
+    .join('\n\n');
+
+// Walks a DOM tree, turning headings into heading blocks and flushing
+// running text into a paragraph whenever a block-level element starts or ends.
+const collectBlocks = (root: Node): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    const text = normalizeWhitespace(buffer);
+    if (text) blocks.push({ text });
+    buffer = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+      buffer += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE && node.nodeType !== Node.DOCUMENT_NODE) return;
+
+    const tag = node.nodeType === Node.ELEMENT_NODE ? (node as Element).localName.toLowerCase() : '';
+    if (SKIP_TAGS.has(tag)) return;
+
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      const text = normalizeWhitespace(node.textContent || '');
+      if (text) blocks.push({ text, level: Number(heading[1]) });
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    node.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  walk(root);
+  flush();
+  return blocks;
+};
+
+const parseMarkup = (source: string, preferXml: boolean): Document => {
+  const parser = new DOMParser();
+  if (preferXml) {
+    const doc = parser.parseFromString(source, 'application/xhtml+xml');
+    if (!doc.getElementsByTagName('parsererror').length) return doc;
+  }
+  return parser.parseFromString(source, 'text/html');
+};
+
+const markupBody = (doc: Document): Node => doc.body || doc.getElementsByTagName('body')[0] || doc;
+
+// --- HTML ---
+
+const importHtml = async (file: File): Promise<Omit<ImportedDocument, 'fileName' | 'format'>> => {
+  const doc = parseMarkup(await file.text(), file.name.toLowerCase().endsWith('.xhtml'));
+  const blocks = collectBlocks(markupBody(doc));
+  const title = normalizeWhitespace(doc.title || '') || blocks.find(b => b.level)?.text || fileBaseName(file.name);
+  return { title, text: blocksToText(blocks) };
+};
+
+// --- Markdown ---
+
+// Link targets and bare URLs, which the reader shows as links and which
+// must not lose their underscores to the italic rule
+const URL_PART = /\]\([^)]*\)|(?:https?:\/\/|www\.)[^\s)]+/g;
+
+const stripInlineMarkdown = (line: string) => {
+  const urls: string[] = [];
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+    .replace(URL_PART, url => `\u0000${urls.push(url) - 1}\u0000`)
+    .replace(/<[^>]+>/g, '') // inline HTML
+    .replace(/`([^`]+)`/g, '$1') // inline code
+    .replace(/(\*\*|__)(.+?)\1/g, '$2') // bold
+    .replace(/(\*|_)(\S.*?\S|\S)\1/g, '$2') // italic
+    .replace(/~~(.+?)~~/g, '$1') // strikethrough
+    .replace(/\u0000(\d+)\u0000/g, (_, i) => urls[Number(i)]);
+};
+
+const importMarkdown = async (file: File): Promise<Omit<ImportedDocument, 'fileName' | 'format'>> => {
+  const lines = (await file.text()).replace(/<!--[\s\S]*?-->/g, '').split(/\r?\n/);
+  const output: string[] = [];
+  let fence = '';
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = lines[i + 1] || '';
+
+    // Code fences are kept as written, so the reader can show the code as a block
+    const fenceMatch = /^\s{0,3}(`{3,}|~{3,})/.exec(line);
+    if (fence) {
+      output.push(line);
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) fence = '';
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push(line);
+      continue;
+    }
+
+    // Setext headings ("Title" underlined with === or ---)
+    if (line.trim() && /^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s{0,3}#/.test(line)) {
+      output.push(`${next.trim().startsWith('=') ? '#' : '##'} ${stripInlineMarkdown(line.trim())}`);
+      i++;
+      continue;
+    }
+    // Horizontal rules carry no readable words
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      output.push('');
+      continue;
+    }
+
+    output.push(
+      stripInlineMarkdown(
+        line
+          .replace(/^\s{0,3}>\s?/, '') // blockquotes
+          .replace(/^(\s*[-*+]\s+)\[[ xX]\]\s+/, '$1') // task list boxes; the bullets stay as list items
+      )
+    );
+  }
+
+  const text = output.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  const firstHeading = /^#{1,6}\s+(.+)$/m.exec(text);
+  return { title: firstHeading ? firstHeading[1].trim() : fileBaseName(file.name), text };
+};
+
+// --- DOCX ---
+
+// Maps paragraph style IDs to heading levels using styles.xml, since style
+// IDs are localized ("Heading1", "Titre1", ...) but names and outline levels are not.
+const readDocxHeadingStyles = (stylesXml: Document | null): Map<string, number> => {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  Array.from(stylesXml.getElementsByTagName('w:style')).forEach(style => {
+    const id = style.getAttribute('w:styleId');
+    if (!id) return;
+    const name = style.getElementsByTagName('w:name')[0]?.getAttribute('w:val') || '';
+    const outline = style.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+    const named = /^heading\s*(\d)$/i.exec(name);
+
+    if (named) levels.set(id, Math.min(6, Number(named[1])));
+    else if (/^title$/i.test(name)) levels.set(id, 1);
+    else if (outline !== null && outline !== undefined && Number(outline) < 6) levels.set(id, Number(outline) + 1);
+  });
+  return levels;
+};
+
+const importDocx = async (file: File): Promise<Omit<ImportedDocument, 'fileName' | 'format'>> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error('This .docx file has no document body.');
+
+  const parser = new DOMParser();
+  const stylesXml = await zip.file('word/styles.xml')?.async('string');
+  const headingStyles = readDocxHeadingStyles(stylesXml ? parser.parseFromString(stylesXml, 'application/xml') : null);
+  const doc = parser.parseFromString(documentXml, 'application/xml');
+
+  const blocks: TextBlock[] = Array.from(doc.getElementsByTagName('w:p')).map(p => {
+    let text = '';
+    p.querySelectorAll('*').forEach(node => {
+      if (node.nodeName === 'w:t') text += node.textContent || '';
+      else if (node.nodeName === 'w:tab' || node.nodeName === 'w:br') text += ' ';
+    });
+
+    const styleId = p.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') || '';
+    const outline = p.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val');
+    const level = headingStyles.get(styleId) ?? (outline && Number(outline) < 6 ? Number(outline) + 1 : undefined);
+    return { text: normalizeWhitespace(text), level };
+  });
+
+  const coreXml = await zip.file('docProps/core.xml')?.async('string');
+  const coreTitle = coreXml
+    ? normalizeWhitespace(parser.parseFromString(coreXml, 'application/xml').getElementsByTagName('dc:title')[0]?.textContent || '')
+    : '';
+
+  return { title: coreTitle || fileBaseName(file.name), text: blocksToText(blocks) };
+};
+
+// --- EPUB ---
+
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+// Reads chapter labels from the EPUB 3 nav document or the EPUB 2 NCX,
+// keyed by the content document path they point to.
+const readEpubToc = async (zip: JSZip, opf: Document, opfPath: string): Promise<Map<string, string>> => {
+  const labels = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName('item'));
+  const navItem = items.find(item => (item.getAttribute('properties') || '').split(/\s+/).includes('nav'));
+  const tocId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc');
+  const ncxItem = items.find(item => item.getAttribute('id') === tocId || item.getAttribute('media-type') === 'application/x-dtbncx+xml');
+
+  if (navItem) {
+    const navPath = resolvePath(opfPath, navItem.getAttribute('href') || '');
+    const source = await zip.file(navPath)?.async('string');
+    if (source) {
+      const doc = parseMarkup(source, true);
+      const navs = Array.from(doc.getElementsByTagName('nav'));
+      const toc = navs.find(nav => (nav.getAttribute('epub:type') || '').includes('toc')) || navs[0];
+      Array.from(toc?.getElementsByTagName('a') || []).forEach(a => {
+        const target = resolvePath(navPath, a.getAttribute('href') || '');
+        const label = normalizeWhitespace(a.textContent || '');
+        if (label && !labels.has(target)) labels.set(target, label);
+      });
+    }
+  } else if (ncxItem) {
+    const ncxPath = resolvePath(opfPath, ncxItem.getAttribute('href') || '');
+    const source = await zip.file(ncxPath)?.async('string');
+    if (source) {
+      const doc = new DOMParser().parseFromString(source, 'application/xml');
+      Array.from(doc.getElementsByTagName('navPoint')).forEach(point => {
+        const label = normalizeWhitespace(point.getElementsByTagName('text')[0]?.textContent || '');
+        const src = point.getElementsByTagName('content')[0]?.getAttribute('src') || '';
+        const target = resolvePath(ncxPath, src);
+        if (label && !labels.has(target)) labels.set(target, label);
+      });
+    }
+  }
+  return labels;
+};
+
+const importEpub = async (file: File): Promise<Omit<ImportedDocument, 'fileName' | 'format'>> => {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const parser = new DOMParser();
+
+  const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+  const opfPath = containerXml
+    ? parser.parseFromString(containerXml, 'application/xml').getElementsByTagName('rootfile')[0]?.getAttribute('full-path')
+    : null;
+  const opfSource = opfPath ? await zip.file(opfPath)?.async('string') : null;
+  if (!opfPath || !opfSource) throw new Error('This EPUB has no package document.');
+
+  const opf = parser.parseFromString(opfSource, 'application/xml');
+  const manifest = new Map<string, string>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, resolvePath(opfPath, href));
+  });
+  const tocLabels = await readEpubToc(zip, opf, opfPath);
+
+  const blocks: TextBlock[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const path = manifest.get(itemref.getAttribute('idref') || '');
+    const source = path ? await zip.file(path)?.async('string') : null;
+    if (!path || !source) continue;
+
+    const sectionBlocks = collectBlocks(markupBody(parseMarkup(source, true)));
+    const label = tocLabels.get(path);
+    // Spine documents without their own heading still get a chapter entry from the TOC
+    if (label && !sectionBlocks.some(b => b.level)) blocks.push({ text: label, level: 1 });
+    blocks.push(...sectionBlocks);
+  }
+
+  const title = normalizeWhitespace(opf.getElementsByTagName('dc:title')[0]?.textContent || '');
+  return { title: title || fileBaseName(file.name), text: blocksToText(blocks) };
+};
+
+// --- PDF ---
+
+interface PdfOutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items: PdfOutlineNode[];
+}
+
+const importPdf = async (file: File): Promise<Omit<ImportedDocument, 'fileName' | 'format'>> => {
+  // Loaded on demand: pdf.js is large and only needed for PDF files
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  // Resolve the bookmark outline to page numbers so headings can be placed
+  const headingsByPage = new Map<number, TextBlock[]>();
+  const addOutline = async (nodes: PdfOutlineNode[], level: number) => {
+    for (const node of nodes) {
+      try {
+        const dest = typeof node.dest === 'string' ? await pdf.getDestination(node.dest) : node.dest;
+        const ref = Array.isArray(dest) ? dest[0] : null;
+        if (ref !== null && ref !== undefined) {
+          const pageIndex = typeof ref === 'number' ? ref : await pdf.getPageIndex(ref);
+          const list = headingsByPage.get(pageIndex) || [];
+          list.push({ text: normalizeWhitespace(node.title), level: Math.min(level, 6) });
+          headingsByPage.set(pageIndex, list);
+        }
+      } catch {
+        // Broken outline entries are skipped, the text is still imported
+      }
+      await addOutline(node.items || [], level + 1);
+    }
+  };
+  await addOutline(((await pdf.getOutline()) || []) as PdfOutlineNode[], 1);
+
+  const blocks: TextBlock[] = [];
+  for (let pageIndex = 0; pageIndex < pdf.numPages; pageIndex++) {
+    blocks.push(...(headingsByPage.get(pageIndex) || []));
+
+    const page = await pdf.getPage(pageIndex + 1);
+    const content = await page.getTextContent();
+    let pageText = '';
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      pageText += item.str + (item.hasEOL ? '\n' : '');
+    }
+    // Re-join words hyphenated across line breaks, then unwrap the lines
+    const text = normalizeWhitespace(pageText.replace(/(\w)-\n(\w)/g, '$1$2'));
+    if (text) blocks.push({ text });
+  }
+
+  const metadata = await pdf.getMetadata().catch(() => null);
+  const infoTitle = (metadata?.info as { Title?: unknown } | undefined)?.Title;
+  await pdf.destroy();
+
+  const title = typeof infoTitle === 'string' ? normalizeWhitespace(infoTitle) : '';
+  return { title: title || fileBaseName(file.name), text: blocksToText(blocks) };
+};
+
+/**
+ * Parses a dropped or picked file entirely in the browser. The result text
+ * keeps the document outline as "#" heading lines so the Reader can build
+ * its chapter list from it.
+ */
+export const importDocument = async (file: File): Promise<ImportedDocument> => {
+  const format = detectFormat(file);
+  if (!format) {
+    throw new Error(`Unsupported file type. Use ${SUPPORTED_EXTENSIONS.join(', ')}.`);
+  }
+
+  try {
+    let parsed: Omit<ImportedDocument, 'fileName' | 'format'>;
+    switch (format) {
+      case 'pdf':
+        parsed = await importPdf(file);
+        break;
+      case 'epub':
+        parsed = await importEpub(file);
+        break;
+      case 'docx':
+        parsed = await importDocx(file);
+        break;
+      case 'html':
+        parsed = await importHtml(file);
+        break;
+      case 'markdown':
+        parsed = await importMarkdown(file);
+        break;
+      default:
+        parsed = { title: fileBaseName(file.name), text: (await file.text()).trim() };
+    }
+
+    if (!parsed.text.trim()) throw new Error(`No readable text found in "${file.name}".`);
+    return { ...parsed, format, fileName: file.name };
+  } catch (error) {
+    console.error("Error importing document:", error);
+    throw error;
+  }
+};
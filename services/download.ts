@@ -0,0 +1,14 @@
+// Saves generated content (exports) as a file through a temporary object URL
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// "2026-10-19", for export file names
+export const dateStamp = (date = new Date()) => date.toISOString().slice(0, 10);
@@ -0,0 +1,83 @@
+import { FlowLanguage } from '../types';
+import { optimizeFlow, DEFAULT_FLOW_SETTINGS } from './flowOptimizer';
+
+// Known inputs and the exact text Optimize Flow should give for them, with
+// every rule on. Run after changing a rule or a spoken form:
+//
+//   echo "import { checkFlowFixtures } from './services/flowFixtures'; console.log(checkFlowFixtures())" \
+//     | npx esbuild --bundle --platform=node | node
+//
+// An empty list means every fixture passed.
+
+interface FlowFixture {
+  language: FlowLanguage;
+  input: string;
+  expected: string;
+}
+
+export const FLOW_FIXTURES: FlowFixture[] = [
+  // Dates
+  { language: 'en', input: 'Born on 25/12/2021.', expected: 'Born on December twenty-fifth, twenty twenty-one.' },
+  { language: 'en', input: 'Due 2021-03-04.', expected: 'Due March fourth, twenty twenty-one.' },
+  { language: 'en', input: 'On March 5, 2021 we met.', expected: 'On March fifth, twenty twenty-one we met.' },
+  { language: 'pt', input: 'Nasceu em 25/12/2021.', expected: 'Nasceu em vinte e cinco de dezembro de dois mil e vinte e um.' },
+
+  // Times
+  { language: 'en', input: 'Meet at 9:05 pm.', expected: 'Meet at nine oh five PM.' },
+  { language: 'en', input: 'At 14:30 sharp.', expected: 'At fourteen thirty sharp.' },
+  { language: 'pt', input: 'Às 14h30 saímos.', expected: 'Às catorze horas e trinta minutos saímos.' },
+
+  // Currency
+  { language: 'en', input: 'It costs $1.50.', expected: 'It costs one dollar and fifty cents.' },
+  { language: 'en', input: 'Paid $2,000 today.', expected: 'Paid two thousand dollars today.' },
+  { language: 'en', input: 'Worth €5 now.', expected: 'Worth five euros now.' },
+  { language: 'pt', input: 'Custa R$ 1.234,56.', expected: 'Custa mil duzentos e trinta e quatro reais e cinquenta e seis centavos.' },
+  { language: 'pt', input: 'Custa R$ 2,50.', expected: 'Custa dois reais e cinquenta centavos.' },
+
+  // Phone numbers, ranges and fractions stay as written
+  { language: 'en', input: 'Call 555-1234.', expected: 'Call 555-1234.' },
+  { language: 'en', input: 'Call (555) 123-4567.', expected: 'Call (555) 123-4567.' },
+  { language: 'en', input: 'Add 3/4 cup.', expected: 'Add 3/4 cup.' },
+  { language: 'en', input: 'Pages 10-20 only.', expected: 'Pages 10-20 only.' },
+  { language: 'pt', input: 'Ligue (11) 5555-1234.', expected: 'Ligue (11) 5555-1234.' },
+
+  // Years only in year context; other four-digit numbers are quantities
+  { language: 'en', input: 'In 1990 it began.', expected: 'In nineteen ninety it began.' },
+  { language: 'en', input: 'Since 2008 it grew.', expected: 'Since two thousand eight it grew.' },
+  { language: 'en', input: 'It sailed 1492 AD.', expected: 'It sailed fourteen ninety-two AD.' },
+  { language: 'en', input: 'We sold 1234 items.', expected: 'We sold one thousand two hundred thirty-four items.' },
+  { language: 'en', input: 'Room 2048 is free.', expected: 'Room two thousand forty-eight is free.' },
+  { language: 'pt', input: 'Em 1990 começou.', expected: 'Em mil novecentos e noventa começou.' },
+
+  // Abbreviations keep a sentence-ending period only where one can end a sentence
+  { language: 'en', input: 'See e.g. Dr. Smith today.', expected: 'See for example Doctor Smith today.' },
+  { language: 'en', input: 'Compare cf. Table 2 vs. Mr. Lee.', expected: 'Compare compare Table two versus Mister Lee.' },
+  { language: 'en', input: 'Apples, pears, etc. Then more.', expected: 'Apples, pears, et cetera. Then more.' },
+  { language: 'en', input: 'Acme Inc. Sold it.', expected: 'Acme Incorporated. Sold it.' },
+  { language: 'en', input: 'Read p. 5 now.', expected: 'Read page five now.' },
+  { language: 'pt', input: 'Veja p. ex. Sr. Silva hoje.', expected: 'Veja por exemplo Senhor Silva hoje.' },
+  { language: 'pt', input: 'Frutas, etc. Depois.', expected: 'Frutas, et cetera. Depois.' },
+
+  // Other rules and plain numbers
+  { language: 'en', input: 'The 21st floor.', expected: 'The twenty-first floor.' },
+  { language: 'en', input: 'Up 15% today.', expected: 'Up fifteen percent today.' },
+  { language: 'en', input: 'It is 3.5 m long.', expected: 'It is three point five meters long.' },
+  { language: 'en', input: 'Tom & Jerry', expected: 'Tom and Jerry' },
+  { language: 'en', input: 'Agent 007 here.', expected: 'Agent zero zero seven here.' },
+  { language: 'en', input: 'It was -3 outside.', expected: 'It was minus three outside.' },
+  { language: 'en', input: 'Version 1.2.3 out.', expected: 'Version 1.2.3 out.' },
+  { language: 'pt', input: 'O 1º lugar.', expected: 'O primeiro lugar.' },
+  { language: 'pt', input: 'Subiu 15%.', expected: 'Subiu quinze por cento.' },
+  { language: 'pt', input: 'Tenho 2 casas.', expected: 'Tenho duas casas.' },
+  { language: 'pt', input: 'São 200 páginas.', expected: 'São duzentas páginas.' },
+  { language: 'pt', input: 'Há 2 dias.', expected: 'Há dois dias.' },
+  { language: 'pt', input: 'Vendeu 1.234 itens.', expected: 'Vendeu mil duzentos e trinta e quatro itens.' },
+  { language: 'pt', input: 'Vale 3,5 kg.', expected: 'Vale três vírgula cinco quilogramas.' },
+];
+
+// One line per fixture whose output differs from the expected text
+export const checkFlowFixtures = (fixtures: FlowFixture[] = FLOW_FIXTURES): string[] =>
+  fixtures.flatMap(({ language, input, expected }) => {
+    const actual = optimizeFlow(input, language, DEFAULT_FLOW_SETTINGS.rules).text;
+    return actual === expected ? [] : [`[${language}] ${JSON.stringify(input)}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+  });
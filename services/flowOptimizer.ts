@@ -0,0 +1,569 @@
+import { FlowLanguage, FlowRuleId, FlowSettings } from '../types';
+import { cardinal, decimal, digits, ordinal, year, MAX_SPOKEN_NUMBER } from './numberWords';
+import { detectLanguage } from './language';
+import { loadJson, saveJson } from './localSettings';
+
+// Offline "Optimize Flow": spells out numbers, dates, currency, symbols and
+// abbreviations so RSVP never flashes something that needs decoding. The
+// rules are deterministic, so the text never changes in any other way.
+
+const STORAGE_KEY = 'speedyreader.flow';
+
+// In the order they run: specific patterns first, so plain numbers never split a date or an amount
+export const FLOW_RULES: { id: FlowRuleId; label: string; example: string }[] = [
+  { id: 'dates', label: 'Dates', example: '25/12/2021 → December twenty-fifth, twenty twenty-one' },
+  { id: 'times', label: 'Times', example: '9:05 pm → nine oh five PM' },
+  { id: 'currency', label: 'Currency', example: '$1.50 → one dollar and fifty cents' },
+  { id: 'percentages', label: 'Percentages', example: '15% → fifteen percent' },
+  { id: 'ordinals', label: 'Ordinals', example: '21st → twenty-first' },
+  { id: 'units', label: 'Units', example: '5 km → five kilometers' },
+  { id: 'symbols', label: 'Symbols', example: '& @ ° ± → and, at, degrees, plus or minus' },
+  { id: 'abbreviations', label: 'Abbreviations', example: 'approx. e.g. Dr. → approximately, for example, Doctor' },
+  { id: 'numbers', label: 'Numbers', example: '1,234 → one thousand two hundred thirty-four' },
+];
+
+export const DEFAULT_FLOW_SETTINGS: FlowSettings = {
+  rules: FLOW_RULES.reduce((rules, rule) => ({ ...rules, [rule.id]: true }), {} as Record<FlowRuleId, boolean>),
+  language: 'auto',
+  refineWithAI: false,
+};
+
+export interface FlowChange {
+  rule: FlowRuleId;
+  from: string;
+  to: string;
+}
+
+export interface FlowResult {
+  text: string;
+  changes: FlowChange[];
+}
+
+// Returns the replacement, or null to leave the match alone
+type Convert = (match: string, groups: string[], offset: number, source: string) => string | null;
+
+// A number as written: digits with optional grouping and decimal separators
+const NUM = String.raw`\d+(?:[.,]\d+)*`;
+// Not glued to a word or another number
+const START = String.raw`(?<![\p{L}\p{N}_.,])`;
+const END = String.raw`(?![\p{L}\p{N}_])`;
+
+const pattern = (source: string) => new RegExp(source, 'gu');
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const GROUPED: Record<FlowLanguage, RegExp> = { en: /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/, pt: /^\d{1,3}(?:\.\d{3})+(?:,\d+)?$/ };
+// Portuguese text often uses a decimal point too, so "1.5" is accepted when it can't be grouping
+const PLAIN: Record<FlowLanguage, RegExp> = { en: /^\d+(?:\.\d+)?$/, pt: /^\d+(?:[,.]\d+)?$/ };
+
+/**
+ * Reads a written number with the language's separators: "1,234.5" in
+ * English, "1.234,5" in Portuguese. Anything else, like version numbers,
+ * is not a number.
+ */
+const parseNumber = (raw: string, language: FlowLanguage) => {
+  let normalized: string;
+  if (GROUPED[language].test(raw)) normalized = raw.split(language === 'pt' ? '.' : ',').join('');
+  else if (PLAIN[language].test(raw)) normalized = raw;
+  else return null;
+  const [integerPart, fraction = ''] = normalized.split(/[.,]/);
+  const integer = Number(integerPart);
+  return integer > MAX_SPOKEN_NUMBER ? null : { integerPart, integer, fraction };
+};
+
+const spokenNumber = (raw: string, language: FlowLanguage, feminine = false) => {
+  const parsed = parseNumber(raw, language);
+  return parsed && decimal(parsed.integer, parsed.fraction, language, feminine);
+};
+
+// --- Dates ---
+
+const MONTHS: Record<FlowLanguage, string[]> = {
+  en: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+  pt: ['janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'],
+};
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// "primeiro de maio" is the usual form of the first day in Portuguese
+const spokenDay = (day: number, language: FlowLanguage) =>
+  language === 'pt' ? (day === 1 ? 'primeiro' : cardinal(day, 'pt')) : ordinal(day, 'en')!;
+
+const spokenDate = (day: number, month: number, fullYear: number | null, language: FlowLanguage, monthName = MONTHS[language][month - 1]) => {
+  if (language === 'pt') {
+    return `${spokenDay(day, 'pt')} de ${monthName}${fullYear === null ? '' : ` de ${year(fullYear, 'pt')}`}`;
+  }
+  return `${monthName} ${spokenDay(day, 'en')}${fullYear === null ? '' : `, ${year(fullYear, 'en')}`}`;
+};
+
+/**
+ * Numeric dates: ISO (2021-12-25) everywhere, day first in Portuguese and
+ * month first in English unless the first number can't be a month.
+ */
+const numericDate = (language: FlowLanguage): Convert => (match, [a, , b, c]) => {
+  let day: number;
+  let month: number;
+  let fullYear: number;
+  if (a.length === 4) {
+    if (c.length > 2) return null;
+    [fullYear, month, day] = [Number(a), Number(b), Number(c)];
+  } else {
+    if (c.length === 3) return null;
+    const first = Number(a);
+    const second = Number(b);
+    const dayFirst = language === 'pt' ? second <= 12 || first > 12 : first > 12;
+    [day, month] = dayFirst ? [first, second] : [second, first];
+    fullYear = Number(c);
+    if (c.length === 2) fullYear += fullYear < 50 ? 2000 : 1900;
+  }
+  if (month < 1 || month > 12 || day < 1 || day > DAYS_IN_MONTH[month - 1]) return null;
+  return spokenDate(day, month, fullYear, language);
+};
+
+const DATE_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] => {
+  const numeric: [RegExp, Convert] = [
+    pattern(String.raw`(?<![\p{N}/.\-])(\d{1,4})([/.\-])(\d{1,2})\2(\d{2,4})(?![\p{N}/\-]|\.\d)`),
+    numericDate(language),
+  ];
+  if (language === 'pt') {
+    return [
+      numeric,
+      // "1º de maio de 2021", "25 de dezembro"
+      [
+        new RegExp(String.raw`${START}(\d{1,2})º?\s+de\s+(${MONTHS.pt.join('|')})(?:\s+de\s+(\d{4}))?${END}`, 'giu'),
+        (match, [day, monthName, y]) => {
+          const month = MONTHS.pt.indexOf(monthName.toLowerCase()) + 1;
+          if (Number(day) < 1 || Number(day) > DAYS_IN_MONTH[month - 1]) return null;
+          return spokenDate(Number(day), month, y ? Number(y) : null, 'pt', monthName);
+        },
+      ],
+    ];
+  }
+  return [
+    numeric,
+    // "December 25, 2021", "May 5th"
+    [
+      pattern(String.raw`(?<![\p{L}])(${MONTHS.en.join('|')})\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?${END}`),
+      (match, [monthName, day, y]) => {
+        const month = MONTHS.en.indexOf(monthName) + 1;
+        if (Number(day) < 1 || Number(day) > DAYS_IN_MONTH[month - 1]) return null;
+        return spokenDate(Number(day), month, y ? Number(y) : null, 'en');
+      },
+    ],
+  ];
+};
+
+// --- Times ---
+
+const spokenEnglishTime = (hours: number, minutes: number, meridiem: string | undefined) => {
+  const suffix = meridiem ? ` ${meridiem.toUpperCase()}M` : '';
+  let spoken = cardinal(hours, 'en');
+  if (minutes > 0) spoken += minutes < 10 ? ` oh ${cardinal(minutes, 'en')}` : ` ${cardinal(minutes, 'en')}`;
+  // 24-hour times say "hundred": "fourteen hundred"
+  else if (!meridiem) spoken += hours > 12 ? ' hundred' : " o'clock";
+  return spoken + suffix;
+};
+
+const spokenPortugueseTime = (hours: number, minutes: number) => {
+  const spoken = `${cardinal(hours, 'pt', true)} ${hours <= 1 ? 'hora' : 'horas'}`;
+  return minutes > 0 ? `${spoken} e ${cardinal(minutes, 'pt')} ${minutes === 1 ? 'minuto' : 'minutos'}` : spoken;
+};
+
+// "a.m." keeps its final period when it ends the sentence
+const MERIDIEM = String.raw`\s?([aApP])\.?[mM](?:\.(?!\s*(?:$|\p{Lu})))?(?![\p{L}\p{N}])`;
+
+const TIME_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] => {
+  if (language === 'pt') {
+    return [
+      // "14:30", "14h30", "14h30min"
+      [
+        pattern(String.raw`(?<![\p{L}\p{N}:.,])(\d{1,2})(?::|h)(\d{2})(?:min)?(?![\p{L}\p{N}:])`),
+        (match, [h, m]) => (Number(h) < 24 && Number(m) < 60 ? spokenPortugueseTime(Number(h), Number(m)) : null),
+      ],
+      // "9h"
+      [
+        pattern(String.raw`(?<![\p{L}\p{N}:.,])(\d{1,2})h(?![\p{L}\p{N}])`),
+        (match, [h]) => (Number(h) < 24 ? spokenPortugueseTime(Number(h), 0) : null),
+      ],
+    ];
+  }
+  return [
+    // "14:30", "9:05 p.m."
+    [
+      pattern(String.raw`(?<![\p{L}\p{N}:.,])(\d{1,2}):(\d{2})(?:${MERIDIEM})?(?![\p{N}:])`),
+      (match, [h, m, meridiem]) => {
+        const hours = Number(h);
+        if (hours > (meridiem ? 12 : 23) || Number(m) > 59) return null;
+        return spokenEnglishTime(hours, Number(m), meridiem);
+      },
+    ],
+    // "5pm"
+    [
+      pattern(String.raw`(?<![\p{L}\p{N}:.,])(\d{1,2})${MERIDIEM}`),
+      (match, [h, meridiem]) => (Number(h) >= 1 && Number(h) <= 12 ? spokenEnglishTime(Number(h), 0, meridiem) : null),
+    ],
+  ];
+};
+
+// --- Currency ---
+
+interface CurrencyNames {
+  unit: [string, string]; // Singular, plural
+  cents?: [string, string];
+  feminine?: boolean; // Portuguese "duas libras"
+}
+
+const DOLLAR: Record<FlowLanguage, CurrencyNames> = {
+  en: { unit: ['dollar', 'dollars'], cents: ['cent', 'cents'] },
+  pt: { unit: ['dólar', 'dólares'], cents: ['centavo', 'centavos'] },
+};
+
+const CURRENCIES: Record<string, Record<FlowLanguage, CurrencyNames>> = {
+  'R$': {
+    en: { unit: ['real', 'reais'], cents: ['centavo', 'centavos'] },
+    pt: { unit: ['real', 'reais'], cents: ['centavo', 'centavos'] },
+  },
+  'US$': DOLLAR,
+  '$': DOLLAR,
+  '€': {
+    en: { unit: ['euro', 'euros'], cents: ['cent', 'cents'] },
+    pt: { unit: ['euro', 'euros'], cents: ['cêntimo', 'cêntimos'] },
+  },
+  '£': {
+    en: { unit: ['pound', 'pounds'], cents: ['penny', 'pence'] },
+    pt: { unit: ['libra', 'libras'], cents: ['pêni', 'pence'], feminine: true },
+  },
+  '¥': {
+    en: { unit: ['yen', 'yen'] },
+    pt: { unit: ['iene', 'ienes'] },
+  },
+};
+
+const SCALE_WORDS = ['thousand', 'million', 'billion', 'trillion', 'mil', 'milhão', 'milhões', 'bilhão', 'bilhões', 'trilhão', 'trilhões'];
+
+const spokenMoney = (symbol: string, raw: string, scale: string | undefined, language: FlowLanguage): string | null => {
+  const names = CURRENCIES[symbol][language];
+  const parsed = parseNumber(raw, language);
+  if (!parsed) return null;
+  const { integer, fraction } = parsed;
+  const feminine = !!names.feminine;
+  const and = language === 'pt' ? ' e ' : ' and ';
+
+  // "$5 million" -> "five million dollars"; Portuguese adds "de" after millions: "cinco milhões de reais"
+  if (scale) {
+    const of = language === 'pt' && scale !== 'mil' ? ' de' : '';
+    return `${decimal(integer, fraction, language, feminine)} ${scale}${of} ${names.unit[1]}`;
+  }
+
+  const withCents = fraction.length === 2 && !!names.cents;
+  const cents = withCents ? Number(fraction) : 0;
+  const amount = withCents ? cardinal(integer, language, feminine) : decimal(integer, fraction, language, feminine);
+  const singular = integer === 1 && (withCents || !fraction);
+  const of = language === 'pt' && integer >= 1_000_000 && integer % 1_000_000 === 0 ? ' de' : '';
+  const whole = `${amount}${of} ${names.unit[singular ? 0 : 1]}`;
+  if (!cents) return whole;
+  const centWords = `${cardinal(cents, language)} ${names.cents![cents === 1 ? 0 : 1]}`;
+  return integer === 0 ? centWords : whole + and + centWords;
+};
+
+const CURRENCY_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] => {
+  const symbols = Object.keys(CURRENCIES).map(escapeRegExp).join('|');
+  return [
+    // "$1.50", "R$ 1.234,56", "US$ 5 million"
+    [
+      pattern(String.raw`(?<![\p{L}\p{N}])(${symbols})\s?(${NUM})(?:\s(${SCALE_WORDS.join('|')}))?${END}`),
+      (match, [symbol, raw, scale]) => spokenMoney(symbol, raw, scale, language),
+    ],
+    // "50 €"
+    [
+      pattern(String.raw`${START}(${NUM})\s?(€|£)`),
+      (match, [raw, symbol]) => spokenMoney(symbol, raw, undefined, language),
+    ],
+  ];
+};
+
+// --- Percentages, ordinals and units ---
+
+const PERCENT_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] => [
+  [
+    pattern(String.raw`${START}(${NUM})\s?%`),
+    (match, [raw]) => {
+      const spoken = spokenNumber(raw, language);
+      return spoken && `${spoken} ${language === 'pt' ? 'por cento' : 'percent'}`;
+    },
+  ],
+];
+
+const ORDINAL_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] =>
+  language === 'pt'
+    ? [[pattern(String.raw`${START}(\d+)\.?([ºª])${END}`), (match, [n, mark]) => ordinal(Number(n), 'pt', mark === 'ª')]]
+    : [[pattern(String.raw`${START}(\d+)(st|nd|rd|th)${END}`), (match, [n]) => ordinal(Number(n), 'en')]];
+
+interface UnitNames {
+  en: [string, string];
+  pt: [string, string];
+  ptFeminine?: boolean;
+}
+
+const UNITS: Record<string, UnitNames> = {
+  'km/h': { en: ['kilometer per hour', 'kilometers per hour'], pt: ['quilômetro por hora', 'quilômetros por hora'] },
+  mph: { en: ['mile per hour', 'miles per hour'], pt: ['milha por hora', 'milhas por hora'], ptFeminine: true },
+  km: { en: ['kilometer', 'kilometers'], pt: ['quilômetro', 'quilômetros'] },
+  cm: { en: ['centimeter', 'centimeters'], pt: ['centímetro', 'centímetros'] },
+  mm: { en: ['millimeter', 'millimeters'], pt: ['milímetro', 'milímetros'] },
+  m: { en: ['meter', 'meters'], pt: ['metro', 'metros'] },
+  kg: { en: ['kilogram', 'kilograms'], pt: ['quilograma', 'quilogramas'] },
+  mg: { en: ['milligram', 'milligrams'], pt: ['miligrama', 'miligramas'] },
+  g: { en: ['gram', 'grams'], pt: ['grama', 'gramas'] },
+  ml: { en: ['milliliter', 'milliliters'], pt: ['mililitro', 'mililitros'] },
+  mL: { en: ['milliliter', 'milliliters'], pt: ['mililitro', 'mililitros'] },
+  l: { en: ['liter', 'liters'], pt: ['litro', 'litros'] },
+  L: { en: ['liter', 'liters'], pt: ['litro', 'litros'] },
+  min: { en: ['minute', 'minutes'], pt: ['minuto', 'minutos'] },
+  TB: { en: ['terabyte', 'terabytes'], pt: ['terabyte', 'terabytes'] },
+  GB: { en: ['gigabyte', 'gigabytes'], pt: ['gigabyte', 'gigabytes'] },
+  MB: { en: ['megabyte', 'megabytes'], pt: ['megabyte', 'megabytes'] },
+};
+
+const UNIT_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] => {
+  // Longest first so "km/h" wins over "km" and "mm" over "m"
+  const units = Object.keys(UNITS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  return [
+    [
+      pattern(String.raw`${START}(${NUM})\s?(${units})${END}`),
+      (match, [raw, unit]) => {
+        const parsed = parseNumber(raw, language);
+        if (!parsed) return null;
+        const names = UNITS[unit];
+        const feminine = language === 'pt' && !!names.ptFeminine;
+        // English uses the singular for exactly one; Portuguese for anything below two ("1,5 quilômetro")
+        const singular = language === 'pt' ? parsed.integer < 2 : parsed.integer === 1 && !parsed.fraction;
+        return `${decimal(parsed.integer, parsed.fraction, language, feminine)} ${names[language][singular ? 0 : 1]}`;
+      },
+    ],
+  ];
+};
+
+// --- Symbols ---
+
+const SYMBOLS: { pattern: RegExp; en: string; pt: string }[] = [
+  { pattern: /°\s?C(?![\p{L}])/gu, en: 'degrees Celsius', pt: 'graus Celsius' },
+  { pattern: /°\s?F(?![\p{L}])/gu, en: 'degrees Fahrenheit', pt: 'graus Fahrenheit' },
+  { pattern: /°/gu, en: 'degrees', pt: 'graus' },
+  { pattern: /&/gu, en: 'and', pt: 'e' },
+  { pattern: /@/gu, en: 'at', pt: 'arroba' },
+  { pattern: /±/gu, en: 'plus or minus', pt: 'mais ou menos' },
+  { pattern: /≈|(?<=^|\s)~(?=\s?\p{N})/gu, en: 'approximately', pt: 'aproximadamente' },
+  { pattern: /×/gu, en: 'times', pt: 'vezes' },
+  { pattern: /÷/gu, en: 'divided by', pt: 'dividido por' },
+  { pattern: /≠/gu, en: 'is not equal to', pt: 'diferente de' },
+  { pattern: /≤/gu, en: 'less than or equal to', pt: 'menor ou igual a' },
+  { pattern: /≥/gu, en: 'greater than or equal to', pt: 'maior ou igual a' },
+  { pattern: /§/gu, en: 'section', pt: 'seção' },
+  { pattern: /#(?=\s?\p{N})/gu, en: 'number', pt: 'número' },
+  // Operators only when set apart by spaces, so "C++" and "a<b" in code stay as they are
+  { pattern: /(?<=\s)\+(?=\s)/gu, en: 'plus', pt: 'mais' },
+  { pattern: /(?<=\s)=(?=\s)/gu, en: 'equals', pt: 'igual a' },
+  { pattern: /(?<=\s)<(?=\s)/gu, en: 'less than', pt: 'menor que' },
+  { pattern: /(?<=\s)>(?=\s)/gu, en: 'greater than', pt: 'maior que' },
+];
+
+// Adds the spaces a symbol didn't need but a word does: "AT&T" -> "AT and T", "25°C" -> "25 degrees Celsius"
+const spaced = (word: string, match: string, offset: number, source: string) => {
+  const before = source[offset - 1];
+  const after = source[offset + match.length];
+  const lead = before && !/\s/.test(before) ? ' ' : '';
+  const trail = after && !/[\s.,;:!?)\]]/.test(after) ? ' ' : '';
+  return lead + word + trail;
+};
+
+const SYMBOL_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] =>
+  SYMBOLS.map(symbol => [symbol.pattern, (match, groups, offset, source) => spaced(symbol[language], match, offset, source)]);
+
+// --- Abbreviations ---
+
+interface Abbreviation {
+  short: string;
+  long: string;
+  endsSentence?: boolean; // Often the last word of a sentence: "apples, pears, etc."
+  beforeNumber?: boolean; // Only an abbreviation when a number follows: "p. 5"
+}
+
+const ABBREVIATIONS: Record<FlowLanguage, Abbreviation[]> = {
+  en: [
+    { short: 'approx.', long: 'approximately' },
+    { short: 'etc.', long: 'et cetera', endsSentence: true },
+    { short: 'e.g.', long: 'for example' },
+    { short: 'i.e.', long: 'that is' },
+    { short: 'a.k.a.', long: 'also known as' },
+    { short: 'vs.', long: 'versus' },
+    { short: 'cf.', long: 'compare' },
+    { short: 'est.', long: 'estimated' },
+    { short: 'min.', long: 'minimum' },
+    { short: 'max.', long: 'maximum' },
+    { short: 'dept.', long: 'department' },
+    { short: 'govt.', long: 'government' },
+    { short: 'Inc.', long: 'Incorporated', endsSentence: true },
+    { short: 'Ltd.', long: 'Limited', endsSentence: true },
+    { short: 'Jr.', long: 'Junior', endsSentence: true },
+    { short: 'Dr.', long: 'Doctor' },
+    { short: 'Mr.', long: 'Mister' },
+    { short: 'Mrs.', long: 'Missus' },
+    { short: 'Prof.', long: 'Professor' },
+    { short: 'Fig.', long: 'Figure', beforeNumber: true },
+    { short: 'fig.', long: 'figure', beforeNumber: true },
+    { short: 'No.', long: 'Number', beforeNumber: true },
+    { short: 'no.', long: 'number', beforeNumber: true },
+    { short: 'pp.', long: 'pages', beforeNumber: true },
+    { short: 'p.', long: 'page', beforeNumber: true },
+  ],
+  pt: [
+    { short: 'aprox.', long: 'aproximadamente' },
+    { short: 'etc.', long: 'et cetera', endsSentence: true },
+    { short: 'p. ex.', long: 'por exemplo' },
+    { short: 'p.ex.', long: 'por exemplo' },
+    { short: 'ex.', long: 'exemplo' },
+    { short: 'i.e.', long: 'isto é' },
+    { short: 'vs.', long: 'versus' },
+    { short: 'máx.', long: 'máximo' },
+    { short: 'mín.', long: 'mínimo' },
+    { short: 'obs.', long: 'observação' },
+    { short: 'tel.', long: 'telefone' },
+    { short: 'séc.', long: 'século' },
+    { short: 'Ltda.', long: 'Limitada', endsSentence: true },
+    { short: 'Sr.', long: 'Senhor' },
+    { short: 'Sra.', long: 'Senhora' },
+    { short: 'Srta.', long: 'Senhorita' },
+    { short: 'Dr.', long: 'Doutor' },
+    { short: 'Dra.', long: 'Doutora' },
+    { short: 'Prof.', long: 'Professor' },
+    { short: 'Profa.', long: 'Professora' },
+    { short: 'Av.', long: 'Avenida' },
+    { short: 'n.º', long: 'número', beforeNumber: true },
+    { short: 'nº', long: 'número', beforeNumber: true },
+    { short: 'Nº', long: 'Número', beforeNumber: true },
+    { short: 'págs.', long: 'páginas', beforeNumber: true },
+    { short: 'pág.', long: 'página', beforeNumber: true },
+    { short: 'cap.', long: 'capítulo', beforeNumber: true },
+  ],
+};
+
+// The abbreviation's period also ended the sentence: keep one. Only
+// abbreviations that can close a sentence do this, so "e.g. Dr. Smith"
+// never gains a break the text did not have.
+const ENDS_SENTENCE = /^(?:\s*$|\s*\n|\s+\p{Lu})/u;
+
+const ABBREVIATION_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] =>
+  ABBREVIATIONS[language].map(abbreviation => {
+    const after = abbreviation.beforeNumber ? String.raw`(?=\s?\d)` : abbreviation.short.endsWith('.') ? '' : END;
+    return [
+      pattern(String.raw`(?<![\p{L}\p{N}.])${escapeRegExp(abbreviation.short)}${after}`),
+      (match, groups, offset, source) => {
+        const rest = source.slice(offset + match.length, offset + match.length + 3);
+        const keepPeriod = !!abbreviation.endsSentence && match.endsWith('.') && ENDS_SENTENCE.test(rest);
+        return abbreviation.long + (keepPeriod ? '.' : '');
+      },
+    ];
+  });
+
+// --- Plain numbers ---
+
+// Portuguese numbers agree with the noun that follows: "duas pessoas", "duzentas páginas"
+const PT_MASCULINE_IN_A = new Set([
+  'dia', 'dias', 'mapa', 'mapas', 'problema', 'problemas', 'sistema', 'sistemas', 'programa', 'programas',
+  'tema', 'temas', 'idioma', 'idiomas', 'planeta', 'planetas', 'poema', 'poemas', 'clima', 'climas',
+]);
+
+const beforeFeminineNoun = (source: string, end: number) => {
+  const next = /^\s+(\p{L}+)/u.exec(source.slice(end, end + 40));
+  const noun = next?.[1].toLowerCase();
+  return !!noun && /as?$/.test(noun) && !PT_MASCULINE_IN_A.has(noun);
+};
+
+// Phone numbers, codes and fractions ("555-1234", "(11) 5555-1234", "3/4") are left as written
+const DIGIT_GROUPS = /\(\d+\)\s?\d+(?:[-–]\d+)*|\d+(?:[-–/]\d+)+/gu;
+
+const inDigitGroup = (source: string, offset: number): boolean => {
+  for (const group of source.matchAll(DIGIT_GROUPS)) {
+    if (group.index! > offset) return false;
+    if (offset < group.index! + group[0].length) return true;
+  }
+  return false;
+};
+
+// A four-digit number is read as a year only where the context says so: "in 1999", "March 2021", "1066 AD"
+const YEAR_BEFORE = new RegExp(
+  String.raw`(?:\b(?:in|since|by|from|until|till|before|after|circa|around|during|AD|CE)|\bc\.|${MONTHS.en.join('|')})\s+$`,
+  'iu'
+);
+const YEAR_AFTER = /^\s?(?:BCE?|CE|AD|B\.C\.|A\.D\.)(?![\p{L}])/u;
+
+const isYearContext = (source: string, start: number, end: number) =>
+  YEAR_BEFORE.test(source.slice(Math.max(0, start - 20), start)) || YEAR_AFTER.test(source.slice(end, end + 6));
+
+const NUMBER_CONVERTERS = (language: FlowLanguage): [RegExp, Convert][] => [
+  [
+    pattern(String.raw`${START}(-)?(${NUM})${END}`),
+    (match, [minus, raw], offset, source) => {
+      if (inDigitGroup(source, offset)) return null;
+      const parsed = parseNumber(raw, language);
+      if (!parsed) return null;
+      const { integerPart, integer, fraction } = parsed;
+      let spoken: string;
+      // Codes like "007" or a postcode are read digit by digit
+      if (!fraction && integerPart.length > 1 && integerPart[0] === '0') spoken = digits(integerPart, language);
+      else if (language === 'en' && !minus && /^\d{4}$/.test(raw) && isYearContext(source, offset, offset + match.length)) {
+        spoken = year(integer, 'en');
+      }
+      else spoken = decimal(integer, fraction, language, language === 'pt' && beforeFeminineNoun(source, offset + match.length));
+      return minus ? `${language === 'pt' ? 'menos' : 'minus'} ${spoken}` : spoken;
+    },
+  ],
+];
+
+const CONVERTERS: Record<FlowRuleId, (language: FlowLanguage) => [RegExp, Convert][]> = {
+  dates: DATE_CONVERTERS,
+  times: TIME_CONVERTERS,
+  currency: CURRENCY_CONVERTERS,
+  percentages: PERCENT_CONVERTERS,
+  ordinals: ORDINAL_CONVERTERS,
+  units: UNIT_CONVERTERS,
+  symbols: SYMBOL_CONVERTERS,
+  abbreviations: ABBREVIATION_CONVERTERS,
+  numbers: NUMBER_CONVERTERS,
+};
+
+// Portuguese gets its own rules; every other language is treated as English
+export const flowLanguageOf = (text: string): FlowLanguage => (detectLanguage(text).language === 'pt' ? 'pt' : 'en');
+
+/**
+ * Runs the enabled rules over the text. Every replacement is recorded so
+ * the result can be previewed before it is applied.
+ */
+export const optimizeFlow = (text: string, language: FlowLanguage, rules: Record<FlowRuleId, boolean>): FlowResult => {
+  const changes: FlowChange[] = [];
+  let result = text;
+  for (const { id } of FLOW_RULES) {
+    if (!rules[id]) continue;
+    for (const [regex, convert] of CONVERTERS[id](language)) {
+      result = result.replace(regex, (match: string, ...rest: unknown[]) => {
+        // replace() passes the capture groups, then the offset and the whole string
+        const source = rest[rest.length - 1] as string;
+        const offset = rest[rest.length - 2] as number;
+        const groups = rest.slice(0, -2) as string[];
+        const replacement = convert(match, groups, offset, source);
+        if (replacement === null || replacement === match) return match;
+        changes.push({ rule: id, from: match, to: replacement });
+        return replacement;
+      });
+    }
+  }
+  return { text: result, changes };
+};
+
+export const loadFlowSettings = (): FlowSettings =>
+  loadJson<FlowSettings>(
+    STORAGE_KEY,
+    stored => ({ ...DEFAULT_FLOW_SETTINGS, ...stored, rules: { ...DEFAULT_FLOW_SETTINGS.rules, ...stored.rules } }),
+    () => ({ ...DEFAULT_FLOW_SETTINGS, rules: { ...DEFAULT_FLOW_SETTINGS.rules } })
+  );
+
+export const saveFlowSettings = (settings: FlowSettings) => saveJson(STORAGE_KEY, settings);
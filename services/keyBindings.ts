@@ -0,0 +1,125 @@
+import { loadJson, saveJson } from './localSettings';
+
+// Reader keyboard actions and their user-remappable key combos.
+// A combo is a string such as "Space", "Shift+ArrowRight" or "Ctrl+K".
+
+export type ReaderAction =
+  | 'togglePlay'
+  | 'wordForward'
+  | 'wordBack'
+  | 'sentenceForward'
+  | 'sentenceBack'
+  | 'paragraphForward'
+  | 'paragraphBack'
+  | 'speedUp'
+  | 'speedDown'
+  | 'fontUp'
+  | 'fontDown'
+  | 'restart'
+  | 'backToEdit'
+  | 'showHelp'
+  | 'commandPalette'
+  | 'highlight'
+  | 'bookmark'
+  | 'showAnnotations'
+  | 'toggleReadingMode';
+
+export type KeyBindings = Record<ReaderAction, string>;
+
+export const READER_ACTIONS: { id: ReaderAction; label: string }[] = [
+  { id: 'togglePlay', label: 'Play / pause' },
+  { id: 'wordForward', label: 'Next word' },
+  { id: 'wordBack', label: 'Previous word' },
+  { id: 'sentenceForward', label: 'Next sentence' },
+  { id: 'sentenceBack', label: 'Previous sentence' },
+  { id: 'paragraphForward', label: 'Next paragraph' },
+  { id: 'paragraphBack', label: 'Previous paragraph' },
+  { id: 'speedUp', label: 'Faster (+25 WPM)' },
+  { id: 'speedDown', label: 'Slower (−25 WPM)' },
+  { id: 'fontUp', label: 'Larger text' },
+  { id: 'fontDown', label: 'Smaller text' },
+  { id: 'restart', label: 'Restart from the beginning' },
+  { id: 'backToEdit', label: 'Back to edit' },
+  { id: 'showHelp', label: 'Keyboard shortcuts' },
+  { id: 'commandPalette', label: 'Command palette' },
+  { id: 'highlight', label: 'Highlight the sentence (with a note)' },
+  { id: 'bookmark', label: 'Bookmark the sentence' },
+  { id: 'showAnnotations', label: 'Highlights and bookmarks' },
+  { id: 'toggleReadingMode', label: 'Switch between RSVP and pacer' },
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  togglePlay: 'Space',
+  wordForward: 'ArrowRight',
+  wordBack: 'ArrowLeft',
+  sentenceForward: 'Shift+ArrowRight',
+  sentenceBack: 'Shift+ArrowLeft',
+  paragraphForward: ']',
+  paragraphBack: '[',
+  speedUp: 'ArrowUp',
+  speedDown: 'ArrowDown',
+  fontUp: '=',
+  fontDown: '-',
+  restart: 'Home',
+  backToEdit: 'E',
+  showHelp: '?',
+  commandPalette: 'Ctrl+K',
+  highlight: 'H',
+  bookmark: 'B',
+  showAnnotations: 'N',
+  toggleReadingMode: 'M',
+};
+
+const STORAGE_KEY = 'speedyreader.keyBindings';
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta']);
+
+/**
+ * Normalizes a keydown into a combo string, or null for a bare modifier.
+ * Cmd on macOS counts as Ctrl. Shift is omitted for symbols, whose key
+ * value already reflects it ("?" rather than "Shift+/").
+ */
+export const eventToCombo = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  const isSymbol = e.key.length === 1 && !/\p{L}|\p{N}/u.test(e.key) && e.key !== ' ';
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && !isSymbol) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+// "Shift+ArrowRight" -> ["Shift", "→"] for display; a trailing "+" is the plus key itself
+export const comboKeys = (combo: string): string[] => {
+  if (!combo) return [];
+  const parts = combo.endsWith('++') ? [...combo.slice(0, -2).split('+'), '+'] : combo === '+' ? ['+'] : combo.split('+');
+  return parts.map(part => KEY_SYMBOLS[part] || part);
+};
+
+export const findAction = (bindings: KeyBindings, combo: string): ReaderAction | null =>
+  (Object.keys(bindings) as ReaderAction[]).find(action => bindings[action] === combo) || null;
+
+// Assigning a combo takes it away from any other action, so bindings stay unambiguous
+export const rebind = (bindings: KeyBindings, action: ReaderAction, combo: string): KeyBindings => {
+  const next = { ...bindings };
+  (Object.keys(next) as ReaderAction[]).forEach(other => {
+    if (next[other] === combo) next[other] = '';
+  });
+  next[action] = combo;
+  return next;
+};
+
+// Merge so actions added in later versions get their defaults
+export const loadKeyBindings = (): KeyBindings =>
+  loadJson<KeyBindings>(STORAGE_KEY, stored => ({ ...DEFAULT_KEY_BINDINGS, ...stored }), () => ({ ...DEFAULT_KEY_BINDINGS }));
+
+export const saveKeyBindings = (bindings: KeyBindings) => saveJson(STORAGE_KEY, bindings);
@@ -0,0 +1,106 @@
+// Script and language detection used by tokenization, pivot placement and pacing.
+
+export type Script = 'latin' | 'cyrillic' | 'greek' | 'cjk' | 'hangul' | 'thai' | 'arabic' | 'hebrew' | 'other';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LanguageInfo {
+  language: string; // BCP 47 tag, e.g. "en", "ja"; "und" when unknown
+  script: Script;
+  direction: TextDirection;
+}
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['thai', /\p{Script=Thai}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['latin', /\p{Script=Latin}/u],
+];
+
+const RTL_SCRIPTS = new Set<Script>(['arabic', 'hebrew']);
+
+// Scripts written without spaces between words, which need a segmenter
+export const UNSPACED_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+// A few very frequent function words per language; enough to tell Latin-script languages apart
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'with', 'for'],
+  pt: ['de', 'que', 'não', 'uma', 'os', 'para', 'com', 'em', 'do', 'da'],
+  es: ['de', 'que', 'el', 'los', 'una', 'para', 'con', 'por', 'del', 'las'],
+  fr: ['le', 'les', 'des', 'est', 'une', 'et', 'dans', 'que', 'pour', 'du'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ein', 'den', 'zu'],
+  it: ['il', 'che', 'di', 'della', 'una', 'per', 'non', 'con', 'gli', 'sono'],
+  nl: ['de', 'het', 'een', 'van', 'en', 'niet', 'dat', 'met', 'voor', 'zijn'],
+};
+
+// Dominant script of a word or short string
+export const scriptOf = (text: string): Script => {
+  for (const char of text) {
+    for (const [script, pattern] of SCRIPT_PATTERNS) {
+      if (pattern.test(char)) return script;
+    }
+  }
+  return 'other';
+};
+
+export const isRtlScript = (script: Script) => RTL_SCRIPTS.has(script);
+
+const guessLatinLanguage = (sample: string): string => {
+  const words: string[] = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  let best = 'und';
+  let bestScore = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const set = new Set(stopwords);
+    const score = words.reduce((total, word) => total + (set.has(word) ? 1 : 0), 0);
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Detects the main script and language from a sample of the text.
+ * Script is decided by letter counts; within Latin script, by stopwords.
+ */
+export const detectLanguage = (text: string): LanguageInfo => {
+  const sample = text.slice(0, 5000);
+  const counts = new Map<Script, number>();
+  let hasKana = false;
+  for (const char of sample) {
+    if (!/\p{L}/u.test(char)) continue;
+    const script = scriptOf(char);
+    counts.set(script, (counts.get(script) || 0) + 1);
+    if (!hasKana && /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(char)) hasKana = true;
+  }
+
+  let script: Script = 'latin';
+  let max = 0;
+  for (const [candidate, count] of counts) {
+    if (count > max) {
+      script = candidate;
+      max = count;
+    }
+  }
+
+  const language = (() => {
+    switch (script) {
+      case 'cjk': return hasKana ? 'ja' : 'zh';
+      case 'hangul': return 'ko';
+      case 'thai': return 'th';
+      case 'arabic': return 'ar';
+      case 'hebrew': return 'he';
+      case 'cyrillic': return 'ru';
+      case 'greek': return 'el';
+      case 'latin': return guessLatinLanguage(sample);
+      default: return 'und';
+    }
+  })();
+
+  return { language, script, direction: isRtlScript(script) ? 'rtl' : 'ltr' };
+};
@@ -0,0 +1,47 @@
+import { ImportedDocument, LibraryDocument } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord, createId } from './storage';
+import { parseStructuredText } from './textStructure';
+
+const TITLE_WORDS = 8;
+
+export const countWords = (text: string): number => parseStructuredText(text).words.length;
+
+// Pasted text has no title, so use the first heading or the opening words
+const deriveTitle = (text: string): string => {
+  const { words, chapters } = parseStructuredText(text);
+  if (chapters.length > 0 && chapters[0].startIndex === 0) return chapters[0].title;
+  const opening = words.slice(0, TITLE_WORDS).join(' ');
+  return words.length > TITLE_WORDS ? `${opening}…` : opening || 'Untitled';
+};
+
+export const createLibraryDocument = (text: string, imported?: ImportedDocument | null): LibraryDocument => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    title: imported?.title || deriveTitle(text),
+    source: imported?.fileName || 'Pasted text',
+    format: imported?.format || 'text',
+    text,
+    wordCount: countWords(text),
+    position: 0,
+    createdAt: now,
+    lastReadAt: now,
+  };
+};
+
+// Most recently read first
+export const sortByLastRead = (documents: LibraryDocument[]): LibraryDocument[] =>
+  [...documents].sort((a, b) => b.lastReadAt - a.lastReadAt);
+
+export const listDocuments = async (): Promise<LibraryDocument[]> =>
+  sortByLastRead(await getAllRecords<LibraryDocument>(STORES.documents));
+
+export const saveDocument = (doc: LibraryDocument): Promise<void> => putRecord(STORES.documents, doc);
+
+export const deleteDocument = (id: string): Promise<void> => deleteRecord(STORES.documents, id);
+
+export const matchesQuery = (doc: LibraryDocument, query: string): boolean => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return doc.title.toLowerCase().includes(q) || doc.source.toLowerCase().includes(q) || doc.text.toLowerCase().includes(q);
+};
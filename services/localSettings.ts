@@ -0,0 +1,20 @@
+// Settings kept as JSON in localStorage, one key per service.
+
+/**
+ * Reads a stored value and hands it to `validate`, which returns the settings
+ * to use or null to reject them. Nothing stored, unreadable JSON or a
+ * rejected value all give the fallback.
+ */
+export const loadJson = <T, S = Partial<T>>(key: string, validate: (stored: S) => T | null, fallback: () => T): T => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || 'null') as S | null;
+    if (stored !== null) return validate(stored) ?? fallback();
+  } catch {
+    // Corrupt settings fall back to the defaults
+  }
+  return fallback();
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+};
@@ -0,0 +1,111 @@
+// Splits long documents into prompt-sized parts and runs an AI operation over
+// them with bounded concurrency, reporting each part as it finishes.
+
+export type PartStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface TextPart {
+  source: string;
+  status: PartStatus;
+  result?: string;
+  error?: string;
+}
+
+export interface RunPartsOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onUpdate?: (parts: TextPart[]) => void;
+}
+
+// ~1,300 words: comfortably inside model context and output limits
+export const DEFAULT_PART_CHARS = 8000;
+const DEFAULT_CONCURRENCY = 3;
+
+const splitSentences = (paragraph: string, maxChars: number): string[] => {
+  const sentences = paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g) || [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+/**
+ * Groups paragraphs into parts of at most `maxChars`. Parts only break at
+ * paragraph boundaries, except for single paragraphs that are too long on
+ * their own, which are broken at sentence boundaries.
+ */
+export const splitIntoParts = (text: string, maxChars = DEFAULT_PART_CHARS): string[] => {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .flatMap(p => (p.length > maxChars ? splitSentences(p, maxChars) : [p]));
+
+  const parts: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const paragraph of paragraphs) {
+    if (current.length > 0 && size + paragraph.length + 2 > maxChars) {
+      parts.push(current.join('\n\n'));
+      current = [];
+      size = 0;
+    }
+    current.push(paragraph);
+    size += paragraph.length + 2;
+  }
+  if (current.length > 0) parts.push(current.join('\n\n'));
+  return parts;
+};
+
+export const createParts = (text: string, maxChars = DEFAULT_PART_CHARS): TextPart[] =>
+  splitIntoParts(text, maxChars).map(source => ({ source, status: 'pending' }));
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException ? error.name === 'AbortError' : error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Runs `worker` over every part that is not already done, so calling it again
+ * with a previous result retries only the failed or cancelled parts.
+ * Resolves with the final state of all parts; it never rejects.
+ */
+export const runParts = async (
+  initial: TextPart[],
+  worker: (source: string, signal?: AbortSignal) => Promise<string>,
+  { concurrency = DEFAULT_CONCURRENCY, signal, onUpdate }: RunPartsOptions = {}
+): Promise<TextPart[]> => {
+  let parts = initial.map(p => (p.status === 'done' ? p : { source: p.source, status: 'pending' as PartStatus }));
+  const queue = parts.map((p, i) => (p.status === 'done' ? -1 : i)).filter(i => i >= 0);
+
+  const update = (index: number, patch: Partial<TextPart>) => {
+    parts = parts.map((p, i) => (i === index ? { ...p, ...patch } : p));
+    onUpdate?.(parts);
+  };
+
+  const runNext = async (): Promise<void> => {
+    while (queue.length > 0) {
+      const index = queue.shift()!;
+      if (signal?.aborted) {
+        update(index, { status: 'failed', error: 'Cancelled' });
+        continue;
+      }
+      update(index, { status: 'running' });
+      try {
+        const result = await worker(parts[index].source, signal);
+        update(index, { status: 'done', result });
+      } catch (error) {
+        const message = isAbortError(error) ? 'Cancelled' : error instanceof Error ? error.message : String(error);
+        update(index, { status: 'failed', error: message });
+      }
+    }
+  };
+
+  onUpdate?.(parts);
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, runNext));
+  return parts;
+};
@@ -0,0 +1,204 @@
+import { NarrationSettings } from '../types';
+import { joinWords } from './tokenizer';
+import { loadJson, saveJson } from './localSettings';
+
+// Text-to-speech narration through the browser's speechSynthesis API. Word
+// boundary events report how far the voice has got, which drives the reader.
+
+export interface NarrationCallbacks {
+  onWord: (wordIndex: number) => void; // The voice started speaking this word
+  onEnd: () => void; // Reached the end of the text
+  onError: (message: string) => void;
+}
+
+export interface SpeakOptions {
+  rate: number;
+  voice: SpeechSynthesisVoice | null;
+  language: string;
+  sentenceStarts: number[];
+}
+
+export interface Narrator {
+  speak: (words: string[], fromIndex: number, options: SpeakOptions) => void;
+  stop: () => void;
+  isSpeaking: () => boolean;
+}
+
+const STORAGE_KEY = 'speedyreader.narration';
+
+// Typical speaking speed at rate 1
+export const BASE_SPEECH_WPM = 180;
+const MIN_RATE = 0.5;
+// Local voices usually go up to about 3x; network voices often stop at 2x
+const MAX_LOCAL_RATE = 3;
+const MAX_REMOTE_RATE = 2;
+
+// Chrome cuts off utterances that run longer than about 15 seconds, so speak in sentence-sized pieces
+const MAX_UTTERANCE_WORDS = 40;
+
+// Voices without boundary events: after this long, the position is estimated from elapsed time
+const BOUNDARY_TIMEOUT_MS = 1500;
+
+export const DEFAULT_NARRATION_SETTINGS: NarrationSettings = { enabled: false, language: '', voiceURI: '' };
+
+export const isNarrationSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Voices load asynchronously in most browsers
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isNarrationSupported()) return Promise.resolve([]);
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(speechSynthesis.getVoices());
+    };
+    speechSynthesis.addEventListener('voiceschanged', done);
+    // Some browsers never fire the event when no voices are installed
+    setTimeout(done, 2000);
+  });
+};
+
+// Preferred voice for a language: the chosen one, else a local voice, else any
+export const pickVoice = (voices: SpeechSynthesisVoice[], language: string, voiceURI: string): SpeechSynthesisVoice | null => {
+  const chosen = voices.find(v => v.voiceURI === voiceURI);
+  if (chosen) return chosen;
+  const base = language.toLowerCase().split('-')[0];
+  const matching = voices.filter(v => v.lang.toLowerCase().split('-')[0] === base);
+  return matching.find(v => v.localService) || matching[0] || null;
+};
+
+/**
+ * Speech rate for a reading speed. Speeds the voice cannot reach are clamped;
+ * `reachableWpm` is what will actually be spoken so the UI can say so.
+ */
+export const narrationRate = (wpm: number, voice: SpeechSynthesisVoice | null) => {
+  const maxRate = voice && !voice.localService ? MAX_REMOTE_RATE : MAX_LOCAL_RATE;
+  const wanted = wpm / BASE_SPEECH_WPM;
+  const rate = Math.max(MIN_RATE, Math.min(maxRate, wanted));
+  return { rate, reachableWpm: Math.round(rate * BASE_SPEECH_WPM), clamped: rate !== wanted };
+};
+
+// Word index for a character offset, given each word's starting offset
+const wordAtChar = (offsets: number[], charIndex: number): number => {
+  let lo = 0;
+  let hi = offsets.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= charIndex) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+// Offsets of each word in the text joinWords() produces
+const wordOffsets = (words: string[]): number[] => {
+  const offsets: number[] = [];
+  let length = 0;
+  words.forEach((word, i) => {
+    // Whatever joinWords put between the previous word and this one
+    if (i > 0) length += joinWords([words[i - 1], word]).length - words[i - 1].length - word.length;
+    offsets.push(length);
+    length += word.length;
+  });
+  return offsets;
+};
+
+export const createNarrator = (callbacks: NarrationCallbacks): Narrator => {
+  // Bumped on every speak/stop so events from cancelled utterances are ignored
+  let generation = 0;
+  let speaking = false;
+  let fallbackTimer: ReturnType<typeof setInterval> | null = null;
+
+  const clearFallback = () => {
+    if (fallbackTimer) clearInterval(fallbackTimer);
+    fallbackTimer = null;
+  };
+
+  const stop = () => {
+    generation++;
+    speaking = false;
+    clearFallback();
+    if (isNarrationSupported()) speechSynthesis.cancel();
+  };
+
+  const speak = (words: string[], fromIndex: number, options: SpeakOptions) => {
+    stop();
+    if (!isNarrationSupported()) {
+      callbacks.onError("Speech synthesis is not available in this browser.");
+      return;
+    }
+    const current = generation;
+    speaking = true;
+
+    const speakFrom = (start: number) => {
+      if (current !== generation) return;
+      if (start >= words.length) {
+        speaking = false;
+        callbacks.onEnd();
+        return;
+      }
+      // End at the next sentence start, within the word limit
+      const nextSentence = options.sentenceStarts.find(s => s > start) ?? words.length;
+      const end = Math.min(nextSentence, start + MAX_UTTERANCE_WORDS, words.length);
+      const slice = words.slice(start, end);
+      const offsets = wordOffsets(slice);
+
+      const utterance = new SpeechSynthesisUtterance(joinWords(slice));
+      utterance.rate = options.rate;
+      utterance.lang = options.voice?.lang || options.language;
+      if (options.voice) utterance.voice = options.voice;
+
+      let lastWord = -1;
+      let sawBoundary = false;
+      const report = (index: number) => {
+        if (current !== generation || index <= lastWord) return;
+        lastWord = index;
+        callbacks.onWord(start + index);
+      };
+
+      utterance.onstart = () => {
+        report(0);
+        clearFallback();
+        const startedAt = performance.now();
+        const msPerWord = 60000 / (BASE_SPEECH_WPM * options.rate);
+        fallbackTimer = setInterval(() => {
+          const elapsed = performance.now() - startedAt;
+          if (sawBoundary || elapsed < BOUNDARY_TIMEOUT_MS) return;
+          report(Math.min(slice.length - 1, Math.floor(elapsed / msPerWord)));
+        }, 100);
+      };
+      utterance.onboundary = (e) => {
+        if (e.name && e.name !== 'word') return;
+        sawBoundary = true;
+        report(wordAtChar(offsets, e.charIndex));
+      };
+      utterance.onend = () => {
+        clearFallback();
+        speakFrom(end);
+      };
+      utterance.onerror = (e) => {
+        clearFallback();
+        // Cancelling (seek, pause) reports "interrupted"/"canceled"; that is not a failure
+        if (current !== generation || e.error === 'interrupted' || e.error === 'canceled') return;
+        console.error("Error during narration:", e.error);
+        speaking = false;
+        callbacks.onError(`Narration stopped: ${e.error}`);
+      };
+      speechSynthesis.speak(utterance);
+    };
+
+    speakFrom(fromIndex);
+  };
+
+  return { speak, stop, isSpeaking: () => speaking };
+};
+
+export const loadNarrationSettings = (): NarrationSettings =>
+  loadJson<NarrationSettings>(
+    STORAGE_KEY,
+    stored => ({ ...DEFAULT_NARRATION_SETTINGS, ...stored }),
+    () => ({ ...DEFAULT_NARRATION_SETTINGS })
+  );
+
+export const saveNarrationSettings = (settings: NarrationSettings) => saveJson(STORAGE_KEY, settings);
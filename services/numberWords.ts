@@ -0,0 +1,161 @@
+import { FlowLanguage } from '../types';
+
+// Spoken forms of numbers in English (US) and Portuguese (Brazil).
+
+const EN_ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+const EN_ORDINAL_IRREGULAR: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+const PT_ONES = [
+  'zero', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove', 'dez',
+  'onze', 'doze', 'treze', 'catorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove',
+];
+const PT_TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const PT_HUNDREDS = ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'];
+const PT_SCALES: [string, string][] = [['', ''], ['mil', 'mil'], ['milhão', 'milhões'], ['bilhão', 'bilhões'], ['trilhão', 'trilhões']];
+
+const PT_ORDINAL_ONES = ['', 'primeiro', 'segundo', 'terceiro', 'quarto', 'quinto', 'sexto', 'sétimo', 'oitavo', 'nono'];
+const PT_ORDINAL_TENS = ['', 'décimo', 'vigésimo', 'trigésimo', 'quadragésimo', 'quinquagésimo', 'sexagésimo', 'septuagésimo', 'octogésimo', 'nonagésimo'];
+const PT_ORDINAL_HUNDREDS = [
+  '', 'centésimo', 'ducentésimo', 'trecentésimo', 'quadringentésimo', 'quingentésimo',
+  'sexcentésimo', 'septingentésimo', 'octingentésimo', 'noningentésimo',
+];
+
+// Largest integer read out; longer digit runs are identifiers, not quantities
+export const MAX_SPOKEN_NUMBER = 999_999_999_999_999;
+
+// Three-digit groups, lowest first: 1234567 -> [567, 234, 1]
+const groupsOf = (n: number): number[] => {
+  const groups: number[] = [];
+  do {
+    groups.push(n % 1000);
+    n = Math.floor(n / 1000);
+  } while (n > 0);
+  return groups;
+};
+
+const enBelowHundred = (n: number) =>
+  n < 20 ? EN_ONES[n] : EN_TENS[Math.floor(n / 10)] + (n % 10 ? `-${EN_ONES[n % 10]}` : '');
+
+const enBelowThousand = (n: number) => {
+  const parts: string[] = [];
+  if (n >= 100) parts.push(`${EN_ONES[Math.floor(n / 100)]} hundred`);
+  if (n % 100) parts.push(enBelowHundred(n % 100));
+  return parts.join(' ');
+};
+
+const enCardinal = (n: number): string => {
+  if (n === 0) return 'zero';
+  return groupsOf(n)
+    .map((group, scale) => (group ? [enBelowThousand(group), EN_SCALES[scale]].filter(Boolean).join(' ') : ''))
+    .filter(Boolean)
+    .reverse()
+    .join(' ');
+};
+
+// Feminine forms only differ for one, two and the hundreds: "uma", "duas", "duzentas"
+const ptFeminine = (word: string) =>
+  word === 'um' ? 'uma' : word === 'dois' ? 'duas' : word.endsWith('entos') ? `${word.slice(0, -2)}as` : word;
+
+const ptBelowThousand = (n: number, feminine: boolean) => {
+  if (n === 100) return 'cem';
+  const parts: string[] = [];
+  if (n >= 100) parts.push(PT_HUNDREDS[Math.floor(n / 100)]);
+  const rest = n % 100;
+  if (rest >= 20) {
+    parts.push(PT_TENS[Math.floor(rest / 10)]);
+    if (rest % 10) parts.push(PT_ONES[rest % 10]);
+  } else if (rest > 0) {
+    parts.push(PT_ONES[rest]);
+  }
+  return parts.map(p => (feminine ? ptFeminine(p) : p)).join(' e ');
+};
+
+const ptCardinal = (n: number, feminine: boolean): string => {
+  if (n === 0) return 'zero';
+  const groups = groupsOf(n);
+  const words: string[] = [];
+  let lowest = -1;
+  for (let scale = groups.length - 1; scale >= 0; scale--) {
+    const group = groups[scale];
+    if (!group) continue;
+    lowest = scale;
+    if (scale === 0) words.push(ptBelowThousand(group, feminine));
+    // "mil", never "um mil"
+    else if (scale === 1) words.push(group === 1 ? 'mil' : `${ptBelowThousand(group, feminine)} mil`);
+    // Millions and up are masculine nouns: "duzentos milhões" even for feminine counts
+    else words.push(`${ptBelowThousand(group, false)} ${PT_SCALES[scale][group === 1 ? 0 : 1]}`);
+  }
+  if (words.length === 1) return words[0];
+  // The last group joins with "e" when it is below a hundred or a round hundred:
+  // "dois mil e vinte", "mil e quinhentos", but "mil duzentos e trinta"
+  const last = groups[lowest];
+  const joiner = last < 100 || last % 100 === 0 ? ' e ' : ' ';
+  return words.slice(0, -1).join(' ') + joiner + words[words.length - 1];
+};
+
+export const cardinal = (n: number, language: FlowLanguage, feminine = false): string =>
+  language === 'pt' ? ptCardinal(n, feminine) : enCardinal(n);
+
+// Digit by digit, for codes and long decimal parts: "0 4 7"
+export const digits = (value: string, language: FlowLanguage): string =>
+  value
+    .split('')
+    .map(d => (language === 'pt' ? PT_ONES : EN_ONES)[Number(d)])
+    .join(' ');
+
+/**
+ * A decimal number. English reads the fraction digit by digit ("three point
+ * one four"); Portuguese reads short fractions as a number ("três vírgula
+ * catorze").
+ */
+export const decimal = (integer: number, fraction: string, language: FlowLanguage, feminine = false): string => {
+  const whole = cardinal(integer, language, feminine);
+  if (!fraction) return whole;
+  if (language === 'pt') {
+    const spoken = fraction.length <= 2 && fraction[0] !== '0' ? ptCardinal(Number(fraction), false) : digits(fraction, 'pt');
+    return `${whole} vírgula ${spoken}`;
+  }
+  return `${whole} point ${digits(fraction, 'en')}`;
+};
+
+/**
+ * English ordinal ("twenty-first"). Portuguese ordinals are only written up
+ * to 1999, so larger ones return null and stay as digits.
+ */
+export const ordinal = (n: number, language: FlowLanguage, feminine = false): string | null => {
+  if (n <= 0) return null;
+  if (language === 'pt') {
+    if (n >= 2000) return null;
+    const parts = [
+      n >= 1000 ? 'milésimo' : '',
+      PT_ORDINAL_HUNDREDS[Math.floor(n / 100) % 10],
+      PT_ORDINAL_TENS[Math.floor(n / 10) % 10],
+      PT_ORDINAL_ONES[n % 10],
+    ].filter(Boolean);
+    return parts.map(p => (feminine ? `${p.slice(0, -1)}a` : p)).join(' ');
+  }
+  const words = enCardinal(n);
+  const last = words.match(/[a-z]+$/)![0];
+  const suffix = EN_ORDINAL_IRREGULAR[last] || (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return words.slice(0, -last.length) + suffix;
+};
+
+/**
+ * A year as people say it. English splits it into pairs ("nineteen
+ * ninety-nine", "nineteen oh five") except for 2000-2009, which read
+ * "two thousand five"; Portuguese says the plain number.
+ */
+export const year = (n: number, language: FlowLanguage): string => {
+  if (language === 'pt' || n < 1100 || n > 2099 || (n >= 2000 && n < 2010)) return cardinal(n, language);
+  const high = Math.floor(n / 100);
+  const low = n % 100;
+  if (low === 0) return `${enBelowHundred(high)} hundred`;
+  return `${enBelowHundred(high)} ${low < 10 ? `oh ${EN_ONES[low]}` : enBelowHundred(low)}`;
+};
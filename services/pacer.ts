@@ -0,0 +1,63 @@
+import { PacerUnit, ReadingMode, ReadingModeSettings } from '../types';
+import { Chunk } from './chunker';
+import { loadJson, saveJson } from './localSettings';
+
+// Pacer (meta-guiding) mode: the page stays on screen and a highlight moves
+// over it at the reader's speed. Only a few pages are rendered at a time.
+
+const STORAGE_KEY = 'speedyreader.readingMode';
+
+export const DEFAULT_READING_MODE: ReadingModeSettings = { mode: 'rsvp', pacerUnit: 'words' };
+
+// Pages end at the first paragraph start past this many words, or at a
+// sentence start past twice as many when a paragraph runs on
+const PAGE_WORDS = 400;
+
+/**
+ * Word indexes where pages start, beginning with 0. Page starts are forced
+ * chunk breaks in pacer mode, so a rendered window always holds whole chunks.
+ */
+export const paginate = (paragraphStarts: number[], sentenceStarts: number[], wordCount: number): number[] => {
+  const pages = [0];
+  const paragraphs = new Set(paragraphStarts);
+  const candidates = [...new Set([...paragraphStarts, ...sentenceStarts])].sort((a, b) => a - b);
+  for (const start of candidates) {
+    if (start <= 0 || start >= wordCount) continue;
+    const length = start - pages[pages.length - 1];
+    if (length >= PAGE_WORDS * 2 || (length >= PAGE_WORDS && paragraphs.has(start))) pages.push(start);
+  }
+  return pages;
+};
+
+// The page holding the word plus one either side: [start, end)
+export const pacerWindow = (pages: number[], wordCount: number, wordIndex: number): { start: number; end: number } => {
+  let page = 0;
+  while (page + 1 < pages.length && pages[page + 1] <= wordIndex) page++;
+  return {
+    start: pages[Math.max(0, page - 1)] ?? 0,
+    end: page + 2 < pages.length ? pages[page + 2] : wordCount,
+  };
+};
+
+/**
+ * Swaps the chunks inside a rendered window for its visual lines, so line
+ * pacing times each line like a chunk. Lines are measured starts within
+ * [start, end); chunks outside the window are kept.
+ */
+export const withLineChunks = (chunks: Chunk[], lineStarts: number[], start: number, end: number): Chunk[] => [
+  ...chunks.filter(c => c.start < start),
+  ...lineStarts.map((line, i) => ({ start: line, length: (lineStarts[i + 1] ?? end) - line })),
+  ...chunks.filter(c => c.start >= end),
+];
+
+export const loadReadingMode = (): ReadingModeSettings =>
+  loadJson<ReadingModeSettings>(
+    STORAGE_KEY,
+    stored => ({
+      mode: (['rsvp', 'pacer'] as ReadingMode[]).includes(stored.mode!) ? stored.mode! : DEFAULT_READING_MODE.mode,
+      pacerUnit: (['words', 'line'] as PacerUnit[]).includes(stored.pacerUnit!) ? stored.pacerUnit! : DEFAULT_READING_MODE.pacerUnit,
+    }),
+    () => ({ ...DEFAULT_READING_MODE })
+  );
+
+export const saveReadingMode = (settings: ReadingModeSettings) => saveJson(STORAGE_KEY, settings);
@@ -0,0 +1,156 @@
+import { PacingMultipliers, PacingProfileId, PacingSettings } from '../types';
+import { isRareWord } from './wordFrequency';
+import { Script, scriptOf } from './language';
+import { loadJson, saveJson } from './localSettings';
+
+const STORAGE_KEY = 'speedyreader.pacing';
+
+export const PACING_PROFILES: Record<Exclude<PacingProfileId, 'custom'>, { label: string; description: string; multipliers: PacingMultipliers }> = {
+  comprehension: {
+    label: 'Comprehension',
+    description: 'Long pauses at sentence ends and extra time for long or rare words.',
+    // Based on "sentence wrap-up" effects and word length processing loads
+    multipliers: {
+      longWordPerChar: 0.1,
+      longWordCap: 1.0,
+      shortWord: 0.9,
+      number: 1.3,
+      sentenceEnd: 2.2,
+      clause: 1.5,
+      quote: 1.2,
+      rareWord: 1.25,
+    },
+  },
+  skim: {
+    label: 'Skim',
+    description: 'Light pauses only, for getting the gist quickly.',
+    multipliers: {
+      longWordPerChar: 0.05,
+      longWordCap: 0.5,
+      shortWord: 0.8,
+      number: 1.15,
+      sentenceEnd: 1.4,
+      clause: 1.15,
+      quote: 1.0,
+      rareWord: 1.1,
+    },
+  },
+  linear: {
+    label: 'Linear',
+    description: 'Every word gets exactly the same time.',
+    multipliers: {
+      longWordPerChar: 0,
+      longWordCap: 0,
+      shortWord: 1,
+      number: 1,
+      sentenceEnd: 1,
+      clause: 1,
+      quote: 1,
+      rareWord: 1,
+    },
+  },
+};
+
+export const MULTIPLIER_FIELDS: { key: keyof PacingMultipliers; label: string; min: number; max: number; step: number }[] = [
+  { key: 'sentenceEnd', label: 'Sentence end', min: 1, max: 4, step: 0.1 },
+  { key: 'clause', label: 'Clause break', min: 1, max: 3, step: 0.1 },
+  { key: 'quote', label: 'Closing quote', min: 1, max: 2, step: 0.05 },
+  { key: 'number', label: 'Numbers', min: 1, max: 2, step: 0.05 },
+  { key: 'rareWord', label: 'Rare words', min: 1, max: 2, step: 0.05 },
+  { key: 'shortWord', label: 'Short words', min: 0.5, max: 1, step: 0.05 },
+  { key: 'longWordPerChar', label: 'Long words (per letter)', min: 0, max: 0.3, step: 0.01 },
+  { key: 'longWordCap', label: 'Long words (maximum)', min: 0, max: 2, step: 0.1 },
+];
+
+// How many Latin letters one character is worth when judging word length.
+// A two-character Chinese word carries about as much as a six-letter English one;
+// abjads (Arabic, Hebrew) leave most vowels unwritten.
+const SCRIPT_LENGTH_SCALE: Partial<Record<Script, number>> = {
+  cjk: 3,
+  hangul: 2,
+  arabic: 1.3,
+  hebrew: 1.3,
+};
+
+export const defaultPacingSettings = (): PacingSettings => ({
+  profile: 'comprehension',
+  multipliers: { ...PACING_PROFILES.comprehension.multipliers },
+});
+
+/**
+ * Duration of a word relative to the base duration (60000 / wpm).
+ * Factors compound, so a long number ending a sentence gets all three.
+ * Word length is scaled per script; the frequency list only covers English.
+ */
+export const wordFactor = (word: string, m: PacingMultipliers, language = 'en'): number => {
+  if (!word) return 1;
+  let factor = 1;
+  const script = scriptOf(word);
+  const length = word.length * (SCRIPT_LENGTH_SCALE[script] ?? 1);
+
+  // Words longer than 6 letters take progressively longer to recognize;
+  // very short (high frequency) words can be faster
+  if (length > 6) {
+    factor *= 1 + Math.min((length - 6) * m.longWordPerChar, m.longWordCap);
+  } else if (length < 3) {
+    factor *= m.shortWord;
+  }
+
+  // Numbers interrupt the phonological loop
+  if (/\d/.test(word)) factor *= m.number;
+  else if (language === 'en' && script === 'latin' && isRareWord(word)) factor *= m.rareWord;
+
+  // The brain needs time to integrate the clause/sentence meaning
+  const lastChar = word.slice(-1);
+  if (/[.!?。！？؟]/.test(lastChar) || word.includes('\n')) {
+    factor *= m.sentenceEnd;
+  } else if (/[,;:\-，、；：،؛]/.test(lastChar)) {
+    factor *= m.clause;
+  } else if (/[")」』]/.test(lastChar)) {
+    factor *= m.quote;
+  }
+
+  return factor;
+};
+
+export const baseDelay = (wpm: number) => 60000 / wpm;
+
+export const wordDelay = (word: string, wpm: number, m: PacingMultipliers, language = 'en') =>
+  baseDelay(wpm) * wordFactor(word, m, language);
+
+/**
+ * Suffix sums of word factors: entry i is the combined factor of words
+ * i..end, with one extra trailing 0. Computed once per text and profile so
+ * chunk durations and time remaining are O(1) lookups at any speed.
+ */
+export const buildTimeline = (words: string[], m: PacingMultipliers, language = 'en'): Float64Array => {
+  const suffix = new Float64Array(words.length + 1);
+  for (let i = words.length - 1; i >= 0; i--) {
+    suffix[i] = suffix[i + 1] + wordFactor(words[i], m, language);
+  }
+  return suffix;
+};
+
+// Time to show words [start, end): a chunk stays up for the sum of its words
+export const rangeDelay = (timeline: Float64Array, start: number, end: number, wpm: number) =>
+  (timeline[start] - timeline[Math.min(end, timeline.length - 1)]) * baseDelay(wpm);
+
+// Exact playing time left from a word to the end of the text
+export const remainingMs = (timeline: Float64Array, wordIndex: number, wpm: number) =>
+  rangeDelay(timeline, wordIndex, timeline.length - 1, wpm);
+
+export const loadPacingSettings = (): PacingSettings =>
+  loadJson<PacingSettings>(
+    STORAGE_KEY,
+    stored => {
+      if (!stored.profile) return null;
+      const base = stored.profile !== 'custom' && stored.profile in PACING_PROFILES
+        ? PACING_PROFILES[stored.profile].multipliers
+        : PACING_PROFILES.comprehension.multipliers;
+      // Merge so multipliers added in later versions get their defaults
+      return { profile: stored.profile, multipliers: { ...base, ...stored.multipliers } };
+    },
+    defaultPacingSettings
+  );
+
+export const savePacingSettings = (settings: PacingSettings) => saveJson(STORAGE_KEY, settings);
@@ -0,0 +1,152 @@
+// Drives RSVP playback from absolute target timestamps instead of chained
+// setTimeout calls. Each item's deadline is the previous deadline plus its
+// duration, so timer lateness and render time never accumulate into drift.
+// Checks run on animation frames, which is also when the word gets painted.
+
+export interface PlaybackItem {
+  delay: number; // Scheduled time on screen, in ms
+  words: number;
+}
+
+// Measured presentation timing since the last resetTiming()
+export interface PlaybackTiming {
+  presentations: number; // Items that completed their time on screen
+  wordsShown: number;
+  scheduledMs: number; // Sum of the durations those items were scheduled for
+  actualMs: number; // Sum of the durations they were actually shown for
+  meanJitterMs: number; // Average distance between deadline and the frame that met it
+  maxJitterMs: number;
+  scheduledWpm: number;
+  measuredWpm: number;
+  recentWpm: number; // Measured over roughly the last RECENT_WINDOW_MS of playback
+}
+
+export interface PlaybackScheduler {
+  start: (item: PlaybackItem) => void; // Shows the first item from now
+  stop: () => void;
+  restart: (item: PlaybackItem) => void; // Replaces the current item, e.g. after a seek
+  isRunning: () => boolean;
+  timing: () => PlaybackTiming;
+  resetTiming: () => void;
+}
+
+// A deadline is met by the frame closest to it, which may run slightly early
+const HALF_FRAME_MS = 8;
+
+const RECENT_WINDOW_MS = 5000;
+
+const now = () => performance.now();
+
+const requestFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const id = setTimeout(callback, 4);
+  return () => clearTimeout(id);
+};
+
+/**
+ * `onAdvance` runs when the current item's time is up. It must show the next
+ * item synchronously (within the frame) and return it, or return null when
+ * playback should end.
+ */
+export const createPlaybackScheduler = (onAdvance: () => PlaybackItem | null): PlaybackScheduler => {
+  let current: PlaybackItem | null = null;
+  let shownAt = 0;
+  let deadline = 0;
+  let cancelFrame: (() => void) | null = null;
+
+  let presentations = 0;
+  let wordsShown = 0;
+  let scheduledMs = 0;
+  let actualMs = 0;
+  let jitterTotal = 0;
+  let maxJitter = 0;
+  let recent: { words: number; ms: number }[] = [];
+
+  const cancel = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+  };
+
+  const show = (item: PlaybackItem, at: number, target: number) => {
+    current = item;
+    shownAt = at;
+    deadline = target + item.delay;
+    // Too far behind to catch up (e.g. a long frame): resynchronize rather
+    // than skip the item or flash a backlog of words in a burst
+    if (deadline <= at) deadline = at + item.delay;
+  };
+
+  const tick = () => {
+    cancelFrame = null;
+    if (!current) return;
+    const t = now();
+    if (t + HALF_FRAME_MS >= deadline) {
+      const jitter = Math.abs(t - deadline);
+      presentations++;
+      wordsShown += current.words;
+      scheduledMs += current.delay;
+      actualMs += t - shownAt;
+      jitterTotal += jitter;
+      maxJitter = Math.max(maxJitter, jitter);
+      recent.push({ words: current.words, ms: t - shownAt });
+      let windowMs = recent.reduce((total, r) => total + r.ms, 0);
+      while (recent.length > 1 && windowMs - recent[0].ms >= RECENT_WINDOW_MS) {
+        windowMs -= recent[0].ms;
+        recent.shift();
+      }
+
+      const next = onAdvance();
+      if (!next) {
+        current = null;
+        return;
+      }
+      // The next deadline builds on this one, absorbing this frame's error
+      show(next, t, deadline);
+    }
+    cancelFrame = requestFrame(tick);
+  };
+
+  const restart = (item: PlaybackItem) => {
+    cancel();
+    const t = now();
+    show(item, t, t);
+    cancelFrame = requestFrame(tick);
+  };
+
+  return {
+    start: restart,
+    restart,
+    stop: () => {
+      cancel();
+      current = null;
+    },
+    isRunning: () => current !== null,
+    timing: () => {
+      const recentMs = recent.reduce((total, r) => total + r.ms, 0);
+      const recentWords = recent.reduce((total, r) => total + r.words, 0);
+      return {
+        presentations,
+        wordsShown,
+        scheduledMs,
+        actualMs,
+        meanJitterMs: presentations > 0 ? jitterTotal / presentations : 0,
+        maxJitterMs: maxJitter,
+        scheduledWpm: scheduledMs > 0 ? (wordsShown / scheduledMs) * 60000 : 0,
+        measuredWpm: actualMs > 0 ? (wordsShown / actualMs) * 60000 : 0,
+        recentWpm: recentMs > 0 ? (recentWords / recentMs) * 60000 : 0,
+      };
+    },
+    resetTiming: () => {
+      presentations = 0;
+      wordsShown = 0;
+      scheduledMs = 0;
+      actualMs = 0;
+      jitterTotal = 0;
+      maxJitter = 0;
+      recent = [];
+    },
+  };
+};
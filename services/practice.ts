@@ -0,0 +1,85 @@
+import { PracticeGenre, PracticeOptions, ReadingLevel } from '../types';
+import { READING_LEVELS } from './readability';
+import { loadJson, saveJson } from './localSettings';
+
+// Options for AI-generated practice texts and the prompt built from them
+
+const STORAGE_KEY = 'speedyreader.practice';
+
+export const PRACTICE_GENRES: { id: PracticeGenre; label: string; prompt: string }[] = [
+  { id: 'article', label: 'Article', prompt: 'an engaging magazine article' },
+  { id: 'story', label: 'Short story', prompt: 'a short story with a clear plot and characters' },
+  { id: 'essay', label: 'Essay', prompt: 'an argumentative essay that builds to a conclusion' },
+  { id: 'news', label: 'News report', prompt: 'a news report in inverted-pyramid style' },
+  { id: 'explainer', label: 'Explainer', prompt: 'an explainer that teaches the topic step by step' },
+  { id: 'biography', label: 'Biography', prompt: 'a short biographical sketch of a relevant person' },
+];
+
+export const PRACTICE_LANGUAGES: { id: string; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'pt', label: 'Portuguese' },
+  { id: 'es', label: 'Spanish' },
+  { id: 'fr', label: 'French' },
+  { id: 'de', label: 'German' },
+  { id: 'it', label: 'Italian' },
+  { id: 'nl', label: 'Dutch' },
+];
+
+export const PRACTICE_LENGTHS = [150, 300, 600, 1000, 2000];
+
+// Picked from when the topic is left empty
+export const RANDOM_TOPICS = [
+  'The Future of Human Evolution',
+  'How Bees Choose a New Home',
+  'The History of the Printing Press',
+  'Why We Dream',
+  'Life on a Deep-Sea Research Vessel',
+  'The Mathematics of Music',
+  'How Cities Cool Themselves',
+  'The Race to Map the Human Brain',
+  'Ancient Roads of the Roman Empire',
+  'The Science of Habits',
+];
+
+// What each level asks of the writer
+const LEVEL_PROMPTS: Record<ReadingLevel, string> = {
+  grade5: 'a 5th-grade reader: short sentences of about 10 words and common, concrete words',
+  grade8: 'an 8th-grade reader: plain language with sentences of about 15 words',
+  highSchool: 'a high-school reader: varied sentences of about 18 words and some subject vocabulary',
+  college: 'a college reader: complex sentences of about 22 words and technical terms where apt',
+  academic: 'an academic reader: long, dense sentences and specialist vocabulary, as in a journal paper',
+};
+
+export const DEFAULT_PRACTICE_OPTIONS: PracticeOptions = {
+  topic: '',
+  words: 300,
+  language: 'en',
+  genre: 'article',
+  level: 'highSchool',
+};
+
+export const resolveTopic = (options: PracticeOptions): string =>
+  options.topic.trim() || RANDOM_TOPICS[Math.floor(Math.random() * RANDOM_TOPICS.length)];
+
+export const practicePrompt = (options: PracticeOptions, topic: string): string => {
+  const genre = PRACTICE_GENRES.find(g => g.id === options.genre) ?? PRACTICE_GENRES[0];
+  const language = PRACTICE_LANGUAGES.find(l => l.id === options.language)?.label ?? options.language;
+  return `Write ${genre.prompt} of about ${options.words} words about "${topic}", in ${language}.
+      Write for ${LEVEL_PROMPTS[options.level]}.
+      The text should be suitable for practicing speed reading: plain paragraphs separated by blank lines, no lists, tables or Markdown formatting. Start with a one-line title as a Markdown heading ("# Title").`;
+};
+
+export const loadPracticeOptions = (): PracticeOptions =>
+  loadJson<PracticeOptions>(
+    STORAGE_KEY,
+    stored => ({
+      topic: typeof stored.topic === 'string' ? stored.topic : DEFAULT_PRACTICE_OPTIONS.topic,
+      words: PRACTICE_LENGTHS.includes(stored.words!) ? stored.words! : DEFAULT_PRACTICE_OPTIONS.words,
+      language: PRACTICE_LANGUAGES.some(l => l.id === stored.language) ? stored.language! : DEFAULT_PRACTICE_OPTIONS.language,
+      genre: PRACTICE_GENRES.some(g => g.id === stored.genre) ? stored.genre! : DEFAULT_PRACTICE_OPTIONS.genre,
+      level: READING_LEVELS.some(l => l.id === stored.level) ? stored.level! : DEFAULT_PRACTICE_OPTIONS.level,
+    }),
+    () => ({ ...DEFAULT_PRACTICE_OPTIONS })
+  );
+
+export const savePracticeOptions = (options: PracticeOptions) => saveJson(STORAGE_KEY, options);
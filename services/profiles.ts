@@ -0,0 +1,192 @@
+import { DisplaySettings, FocusGuideStyle, ReaderFont, ReaderProfile, ReaderTheme } from '../types';
+import { createId } from './storage';
+import { MIN_CHUNK_SIZE, MAX_CHUNK_SIZE } from './chunker';
+import { loadJson, saveJson } from './localSettings';
+
+// Named reader profiles: speed plus display and accessibility options.
+// Stored data and imported files carry a schema version and are migrated
+// forward, then every field is validated, so a bad value never reaches the reader.
+
+const STORAGE_KEY = 'speedyreader.profiles';
+
+export const PROFILE_SCHEMA_VERSION = 1;
+
+export const READER_FONTS: { id: ReaderFont; label: string; family: string }[] = [
+  { id: 'mono', label: 'JetBrains Mono', family: "'JetBrains Mono', monospace" },
+  { id: 'sans', label: 'Inter', family: "'Inter', sans-serif" },
+  { id: 'serif', label: 'Literata', family: "'Literata', Georgia, serif" },
+  { id: 'hyperlegible', label: 'Atkinson Hyperlegible', family: "'Atkinson Hyperlegible', sans-serif" },
+  { id: 'lexend', label: 'Lexend', family: "'Lexend', sans-serif" },
+  { id: 'dyslexic', label: 'OpenDyslexic', family: "'OpenDyslexic', 'Comic Sans MS', sans-serif" },
+];
+
+export const READER_THEMES: { id: ReaderTheme; label: string }[] = [
+  { id: 'dark', label: 'Dark' },
+  { id: 'light', label: 'Light' },
+  { id: 'contrast', label: 'High contrast' },
+];
+
+export const FOCUS_GUIDES: { id: FocusGuideStyle; label: string }[] = [
+  { id: 'lines', label: 'Lines' },
+  { id: 'box', label: 'Box' },
+  { id: 'crosshair', label: 'Ticks' },
+  { id: 'none', label: 'None' },
+];
+
+export const PIVOT_COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#d946ef', '#facc15'];
+
+export const MAX_LETTER_SPACING = 0.3;
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  font: 'mono',
+  letterSpacing: 0,
+  pivotColor: '#ef4444',
+  theme: 'dark',
+  focusGuide: 'lines',
+  reducedMotion: false,
+};
+
+export const DEFAULT_READER = {
+  wpm: 350, // Slightly higher default for scientific method
+  chunkSize: 1,
+  fontSize: 4,
+};
+
+export interface ProfileStore {
+  version: number;
+  activeId: string;
+  profiles: ReaderProfile[];
+}
+
+export const createProfile = (name: string, from?: ReaderProfile): ReaderProfile => ({
+  id: createId(),
+  name,
+  reader: { ...(from?.reader ?? DEFAULT_READER) },
+  display: {
+    ...(from?.display ?? {
+      ...DEFAULT_DISPLAY_SETTINGS,
+      // A new profile follows the system's motion preference
+      reducedMotion: typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches,
+    }),
+  },
+  updatedAt: Date.now(),
+});
+
+const defaultStore = (): ProfileStore => {
+  const profile = createProfile('Default');
+  return { version: PROFILE_SCHEMA_VERSION, activeId: profile.id, profiles: [profile] };
+};
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades data saved by schema version N (the key) to N + 1. When the
+ * schema changes, bump PROFILE_SCHEMA_VERSION and add a step here; old
+ * saves and exports then keep loading.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Unversioned data is hand-written JSON: one profile, a list of them, or a store without a version
+  0: data => {
+    if (Array.isArray(data.profiles)) return { ...data, version: 1 };
+    if (Array.isArray(data.list)) return { version: 1, profiles: data.list };
+    return { version: 1, profiles: [data] };
+  },
+};
+
+const migrate = (raw: unknown): Record<string, unknown> => {
+  let data: Record<string, unknown> = Array.isArray(raw) ? { list: raw } : (raw as Record<string, unknown>);
+  if (!data || typeof data !== 'object') throw new Error("The file does not contain reader profiles.");
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > PROFILE_SCHEMA_VERSION) throw new Error("These profiles come from a newer version of the app.");
+  while (version < PROFILE_SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version++;
+  }
+  return data;
+};
+
+const numberIn = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+const oneOf = <T extends string>(value: unknown, options: { id: T }[], fallback: T): T =>
+  options.some(o => o.id === value) ? (value as T) : fallback;
+
+// Keeps every valid field and replaces the rest with defaults; null when it is not a profile at all
+const validateProfile = (raw: unknown): ReaderProfile | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const p = raw as Partial<Record<keyof ReaderProfile, unknown>>;
+  const reader = (p.reader && typeof p.reader === 'object' ? p.reader : {}) as Record<string, unknown>;
+  const display = (p.display && typeof p.display === 'object' ? p.display : {}) as Record<string, unknown>;
+  if (typeof p.name !== 'string' && !p.reader && !p.display) return null;
+
+  return {
+    id: typeof p.id === 'string' && p.id ? p.id : createId(),
+    name: typeof p.name === 'string' && p.name.trim() ? p.name.trim().slice(0, 60) : 'Imported profile',
+    reader: {
+      wpm: Math.round(numberIn(reader.wpm, 50, 2000, DEFAULT_READER.wpm)),
+      chunkSize: Math.round(numberIn(reader.chunkSize, MIN_CHUNK_SIZE, MAX_CHUNK_SIZE, DEFAULT_READER.chunkSize)),
+      fontSize: numberIn(reader.fontSize, 1, 8, DEFAULT_READER.fontSize),
+    },
+    display: {
+      font: oneOf(display.font, READER_FONTS, DEFAULT_DISPLAY_SETTINGS.font),
+      letterSpacing: numberIn(display.letterSpacing, 0, MAX_LETTER_SPACING, DEFAULT_DISPLAY_SETTINGS.letterSpacing),
+      pivotColor:
+        typeof display.pivotColor === 'string' && /^#[0-9a-f]{6}$/i.test(display.pivotColor)
+          ? display.pivotColor.toLowerCase()
+          : DEFAULT_DISPLAY_SETTINGS.pivotColor,
+      theme: oneOf(display.theme, READER_THEMES, DEFAULT_DISPLAY_SETTINGS.theme),
+      focusGuide: oneOf(display.focusGuide, FOCUS_GUIDES, DEFAULT_DISPLAY_SETTINGS.focusGuide),
+      reducedMotion: typeof display.reducedMotion === 'boolean' ? display.reducedMotion : DEFAULT_DISPLAY_SETTINGS.reducedMotion,
+    },
+    updatedAt: numberIn(p.updatedAt, 0, Number.MAX_SAFE_INTEGER, Date.now()),
+  };
+};
+
+const validateProfiles = (data: Record<string, unknown>): ReaderProfile[] =>
+  (Array.isArray(data.profiles) ? data.profiles : []).map(validateProfile).filter((p): p is ReaderProfile => p !== null);
+
+export const loadProfiles = (): ProfileStore =>
+  loadJson<ProfileStore, unknown>(
+    STORAGE_KEY,
+    stored => {
+      const data = migrate(stored);
+      const profiles = validateProfiles(data);
+      if (profiles.length === 0) return null;
+      const activeId = profiles.some(p => p.id === data.activeId) ? (data.activeId as string) : profiles[0].id;
+      return { version: PROFILE_SCHEMA_VERSION, activeId, profiles };
+    },
+    defaultStore
+  );
+
+export const saveProfiles = (store: ProfileStore) => saveJson(STORAGE_KEY, store);
+
+export const activeProfile = (store: ProfileStore): ReaderProfile =>
+  store.profiles.find(p => p.id === store.activeId) ?? store.profiles[0];
+
+export const updateProfile = (store: ProfileStore, profile: ReaderProfile): ProfileStore => ({
+  ...store,
+  profiles: store.profiles.map(p => (p.id === profile.id ? { ...profile, updatedAt: Date.now() } : p)),
+});
+
+export const exportProfiles = (profiles: ReaderProfile[]): string =>
+  JSON.stringify({ version: PROFILE_SCHEMA_VERSION, exportedAt: new Date().toISOString(), profiles }, null, 2);
+
+/**
+ * Reads exported profiles, migrating and validating them. Imported
+ * profiles get fresh ids so they never overwrite existing ones; throws
+ * with a readable message when the file holds nothing usable.
+ */
+export const importProfiles = (json: string): ReaderProfile[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const profiles = validateProfiles(migrate(raw));
+  if (profiles.length === 0) throw new Error("The file does not contain reader profiles.");
+  return profiles.map(p => ({ ...p, id: createId() }));
+};
+
+export const fontFamily = (font: ReaderFont): string =>
+  (READER_FONTS.find(f => f.id === font) ?? READER_FONTS[0]).family;
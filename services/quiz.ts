@@ -0,0 +1,131 @@
+import { QuizQuestion, QuizResult } from '../types';
+import { STORES, putRecord, createId } from './storage';
+
+export const DEFAULT_QUESTION_COUNT = 5;
+
+const MIN_SENTENCE_WORDS = 6;
+const MAX_SENTENCE_WORDS = 40;
+const MIN_ANSWER_LENGTH = 5;
+const DISTRACTOR_COUNT = 3;
+
+// Small seeded PRNG (mulberry32) so the same text always yields the same quiz
+const createRandom = (seedText: string) => {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = (Math.imul(seed, 31) + seedText.charCodeAt(i)) | 0;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const stripPunctuation = (word: string) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+// Long words carry the content; short ones are mostly function words
+const isContentWord = (word: string) => word.length >= MIN_ANSWER_LENGTH && /^\p{L}+$/u.test(word);
+
+/**
+ * Builds a cloze-deletion quiz locally, for offline use or when the AI
+ * provider fails: a key word is blanked out of evenly spaced sentences and
+ * mixed with other words of similar length from the same text.
+ */
+export const buildClozeQuiz = (text: string, count = DEFAULT_QUESTION_COUNT): QuizQuestion[] => {
+  const random = createRandom(text);
+  const sentences = (text.replace(/\s+/g, ' ').match(/[^.!?]+[.!?]+["')\]]*/g) || [])
+    .map(s => s.trim())
+    .filter(s => {
+      const n = s.split(' ').length;
+      return n >= MIN_SENTENCE_WORDS && n <= MAX_SENTENCE_WORDS;
+    });
+
+  const pool = Array.from(
+    new Set(text.split(/\s+/).map(stripPunctuation).filter(isContentWord).map(w => w.toLowerCase()))
+  );
+
+  // Evenly spaced sentences first, each at most once, the rest as fallbacks when one yields no question
+  const stride = Math.max(1, sentences.length / count);
+  const spaced = Array.from({ length: Math.min(count, sentences.length) }, (_, k) => Math.floor(k * stride));
+  const order = [...spaced, ...sentences.map((_, i) => i).filter(i => !spaced.includes(i))];
+
+  const questions: QuizQuestion[] = [];
+  for (const index of order) {
+    if (questions.length >= count) break;
+    const sentence = sentences[index];
+    const candidates = sentence.split(' ').map(stripPunctuation).filter(isContentWord);
+    if (candidates.length === 0) continue;
+
+    const longest = Math.max(...candidates.map(w => w.length));
+    const answer = shuffle<string>(candidates.filter(w => w.length >= longest - 1), random)[0];
+    const distractors = shuffle(
+      pool.filter(w => w !== answer.toLowerCase() && Math.abs(w.length - answer.length) <= 3),
+      random
+    ).slice(0, DISTRACTOR_COUNT);
+    if (distractors.length < DISTRACTOR_COUNT) continue;
+
+    const options = shuffle([answer.toLowerCase(), ...distractors], random);
+    questions.push({
+      question: sentence.replace(new RegExp(`(^|[^\\p{L}])${answer}(?=[^\\p{L}]|$)`, 'u'), '$1_____'),
+      options,
+      answerIndex: options.indexOf(answer.toLowerCase()),
+    });
+  }
+  return questions;
+};
+
+// Accepts the model's JSON answer, tolerating code fences and surrounding prose
+export const parseQuizResponse = (raw: string): QuizQuestion[] => {
+  const start = raw.indexOf('[');
+  const end = raw.lastIndexOf(']');
+  if (start < 0 || end <= start) throw new Error("Quiz response contained no JSON array");
+
+  const parsed: unknown = JSON.parse(raw.slice(start, end + 1));
+  if (!Array.isArray(parsed)) throw new Error("Quiz response is not an array");
+
+  const questions = parsed.filter((q): q is QuizQuestion =>
+    !!q &&
+    typeof q.question === 'string' &&
+    Array.isArray(q.options) &&
+    q.options.length >= 2 &&
+    q.options.every((o: unknown) => typeof o === 'string') &&
+    Number.isInteger(q.answerIndex) &&
+    q.answerIndex >= 0 &&
+    q.answerIndex < q.options.length
+  );
+  if (questions.length === 0) throw new Error("Quiz response contained no valid questions");
+  return questions;
+};
+
+export const scoreQuiz = (
+  questions: QuizQuestion[],
+  answers: (number | null)[],
+  wpm: number,
+  source: QuizResult['source'],
+  documentId: string | null
+): QuizResult => {
+  const correctCount = questions.filter((q, i) => answers[i] === q.answerIndex).length;
+  const accuracy = questions.length > 0 ? correctCount / questions.length : 0;
+  return {
+    id: createId(),
+    documentId,
+    completedAt: Date.now(),
+    source,
+    questionCount: questions.length,
+    correctCount,
+    accuracy,
+    wpm: Math.round(wpm),
+    // Speed only counts to the extent that the text was understood
+    effectiveWpm: Math.round(wpm * accuracy),
+  };
+};
+
+export const saveQuizResult = (result: QuizResult): Promise<void> => putRecord(STORES.quizResults, result);
@@ -0,0 +1,99 @@
+import { ReadingLevel } from '../types';
+import { detectLanguage } from './language';
+
+// Flesch-style reading ease, with each language's published adaptation of
+// the formula, and the starting speed it suggests.
+
+export const READING_LEVELS: { id: ReadingLevel; label: string; description: string; minEase: number }[] = [
+  { id: 'grade5', label: 'Grade 5', description: 'Short sentences and everyday words.', minEase: 80 },
+  { id: 'grade8', label: 'Grade 8', description: 'Plain language, some longer sentences.', minEase: 65 },
+  { id: 'highSchool', label: 'High school', description: 'Varied sentences and some subject vocabulary.', minEase: 50 },
+  { id: 'college', label: 'College', description: 'Dense sentences and technical terms.', minEase: 30 },
+  { id: 'academic', label: 'Academic', description: 'Long, complex sentences and specialist vocabulary.', minEase: -Infinity },
+];
+
+// Reading ease from average sentence length (words) and average syllables per word
+const EASE_FORMULAS: Record<string, (asl: number, asw: number) => number> = {
+  en: (asl, asw) => 206.835 - 1.015 * asl - 84.6 * asw, // Flesch
+  pt: (asl, asw) => 248.835 - 1.015 * asl - 84.6 * asw, // Martins et al.
+  es: (asl, asw) => 206.84 - 1.02 * asl - 60 * asw, // Fernández Huerta
+  fr: (asl, asw) => 207 - 1.015 * asl - 73.6 * asw, // Kandel & Moles
+  de: (asl, asw) => 180 - asl - 58.5 * asw, // Amstad
+  it: (asl, asw) => 206 - asl - 65 * asw, // Franchina-Vacca
+  nl: (asl, asw) => 206.835 - 0.93 * asl - 77 * asw, // Douma
+};
+
+const VOWEL_GROUP = /[aeiouyàáâãäåæèéêëìíîïòóôõöøùúûüœ]+/giu;
+
+// Scoring stops here; the opening of a long document is a fair sample
+const SAMPLE_CHARS = 50000;
+
+// Speed suggested for standard prose; easier or harder text moves it within these factors
+export const BASE_WPM = 350;
+const MIN_FACTOR = 0.7;
+const MAX_FACTOR = 1.2;
+
+export interface Readability {
+  language: string;
+  ease: number; // Higher is easier; about 60-70 for plain prose
+  level: ReadingLevel;
+  words: number;
+  sentences: number;
+  syllablesPerWord: number;
+  recommendedWpm: number;
+}
+
+/**
+ * Syllables as vowel groups, which holds well for Romance and Germanic
+ * languages. Silent final "e" is dropped in English and French ("make",
+ * "grande"), but not from "-le" endings ("table").
+ */
+export const countSyllables = (word: string, language: string): number => {
+  const lower = word.toLowerCase();
+  let count = (lower.match(VOWEL_GROUP) || []).length;
+  if ((language === 'en' || language === 'fr') && count > 1 && /[^aeiouy]e$/.test(lower) && !/[^aeiouy]le$/.test(lower)) count--;
+  if (language === 'fr' && count > 1 && /[^aeiouy](es|ent)$/.test(lower)) count--;
+  return Math.max(1, count);
+};
+
+export const levelForEase = (ease: number): ReadingLevel =>
+  READING_LEVELS.find(level => ease >= level.minEase)!.id;
+
+// Easier text can be read faster: +0.5% per point of ease above standard prose (60), within bounds
+export const readabilityFactor = (ease: number): number => Math.max(MIN_FACTOR, Math.min(MAX_FACTOR, 1 + (ease - 60) * 0.005));
+
+export const recommendWpm = (ease: number, baseWpm = BASE_WPM): number =>
+  Math.round((baseWpm * readabilityFactor(ease)) / 25) * 25;
+
+/**
+ * Scores a text, or returns null when it is too short to judge or its
+ * language has no formula (including scripts without syllables to count).
+ * The recommended speed scales the reader's own speed for standard prose.
+ */
+export const scoreReadability = (
+  text: string,
+  language = detectLanguage(text).language,
+  baseWpm = BASE_WPM
+): Readability | null => {
+  const formula = EASE_FORMULAS[language];
+  if (!formula) return null;
+
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const words: string[] = sample.match(/\p{L}[\p{L}\p{M}'’-]*/gu) || [];
+  if (words.length < 30) return null;
+  // Line breaks without punctuation still end a sentence (headings, list items)
+  const sentences = Math.max(1, sample.split(/[.!?…]+(?=\s|$)|\n\s*\n|\n(?=\s*[-*+#•]|\s*\d+[.)])/).filter(s => /\p{L}/u.test(s)).length);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word, language), 0);
+
+  const syllablesPerWord = syllables / words.length;
+  const ease = Math.round(Math.max(0, Math.min(120, formula(words.length / sentences, syllablesPerWord))));
+  return {
+    language,
+    ease,
+    level: levelForEase(ease),
+    words: words.length,
+    sentences,
+    syllablesPerWord,
+    recommendedWpm: recommendWpm(ease, baseWpm),
+  };
+};
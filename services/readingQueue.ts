@@ -0,0 +1,122 @@
+import { LibraryDocument, QueueItem, QueueItemState, ReadingQueue } from '../types';
+import { createId } from './storage';
+import { loadJson, saveJson } from './localSettings';
+
+// An ordered playlist of library documents, read one after another
+
+const STORAGE_KEY = 'speedyreader.queue';
+
+const ITEM_STATES: QueueItemState[] = ['queued', 'read', 'skipped'];
+
+// A queue item with the details of its document
+export interface QueueEntry extends QueueItem {
+  title: string;
+  wordCount: number;
+}
+
+export const EMPTY_QUEUE: ReadingQueue = { items: [], currentId: null, showSummaries: false };
+
+export const loadQueue = (): ReadingQueue =>
+  loadJson<ReadingQueue>(
+    STORAGE_KEY,
+    stored => {
+      const items = (Array.isArray(stored.items) ? stored.items : []).filter(
+        (item): item is QueueItem =>
+          !!item && typeof item.id === 'string' && typeof item.documentId === 'string' && ITEM_STATES.includes(item.state)
+      );
+      return {
+        items,
+        currentId: items.some(item => item.id === stored.currentId) ? stored.currentId! : null,
+        showSummaries: stored.showSummaries === true,
+      };
+    },
+    () => ({ ...EMPTY_QUEUE })
+  );
+
+export const saveQueue = (queue: ReadingQueue) => saveJson(STORAGE_KEY, queue);
+
+// Items whose document has been deleted from the library are left out
+export const queueEntries = (queue: ReadingQueue, documents: LibraryDocument[]): QueueEntry[] =>
+  queue.items.flatMap(item => {
+    const doc = documents.find(d => d.id === item.documentId);
+    return doc ? [{ ...item, title: doc.title, wordCount: doc.wordCount }] : [];
+  });
+
+// A document already in the queue is queued again rather than added twice
+export const addToQueue = (queue: ReadingQueue, documentId: string): ReadingQueue => {
+  const existing = queue.items.find(item => item.documentId === documentId);
+  if (existing) return setItemState(queue, existing.id, 'queued');
+  return { ...queue, items: [...queue.items, { id: createId(), documentId, state: 'queued' }] };
+};
+
+export const removeFromQueue = (queue: ReadingQueue, id: string): ReadingQueue => ({
+  ...queue,
+  items: queue.items.filter(item => item.id !== id),
+  currentId: queue.currentId === id ? null : queue.currentId,
+});
+
+export const removeDocumentFromQueue = (queue: ReadingQueue, documentId: string): ReadingQueue =>
+  queue.items
+    .filter(item => item.documentId === documentId)
+    .reduce((next, item) => removeFromQueue(next, item.id), queue);
+
+// Moves an item up (-1) or down (+1) the queue
+export const moveQueueItem = (queue: ReadingQueue, id: string, offset: number): ReadingQueue => {
+  const from = queue.items.findIndex(item => item.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= queue.items.length) return queue;
+  const items = [...queue.items];
+  const [moved] = items.splice(from, 1);
+  items.splice(to, 0, moved);
+  return { ...queue, items };
+};
+
+export const setItemState = (queue: ReadingQueue, id: string, state: QueueItemState): ReadingQueue => ({
+  ...queue,
+  items: queue.items.map(item => (item.id === id ? { ...item, state } : item)),
+});
+
+export const setItemSummary = (queue: ReadingQueue, id: string, summary: string): ReadingQueue => ({
+  ...queue,
+  items: queue.items.map(item => (item.id === id ? { ...item, summary } : item)),
+});
+
+// Finished and skipped items go back in line for another pass
+export const requeueAll = (queue: ReadingQueue): ReadingQueue => ({
+  ...queue,
+  items: queue.items.map(item => ({ ...item, state: 'queued' })),
+});
+
+export const clearFinished = (queue: ReadingQueue): ReadingQueue =>
+  queue.items.filter(item => item.state !== 'queued').reduce((next, item) => removeFromQueue(next, item.id), queue);
+
+/**
+ * The next item to read: the first queued one after `afterId` in queue
+ * order, wrapping around to any earlier one still waiting. Null when
+ * nothing is left.
+ */
+export const nextQueueItem = <T extends QueueItem>(items: T[], afterId: string | null = null): T | null => {
+  const from = items.findIndex(item => item.id === afterId) + 1;
+  const waiting = (item: T) => item.state === 'queued' && item.id !== afterId;
+  return items.slice(from).find(waiting) ?? items.slice(0, from).find(waiting) ?? null;
+};
+
+// Reading time at a steady speed, without pacing pauses
+export const estimateMs = (words: number, wpm: number): number => (words / Math.max(1, wpm)) * 60000;
+
+/**
+ * Words behind the reader across the whole queue: every finished or
+ * skipped item, plus the position in the one being read.
+ */
+export const queueProgress = (entries: QueueEntry[], currentId: string | null, currentIndex: number) => {
+  const totalWords = entries.reduce((sum, entry) => sum + entry.wordCount, 0);
+  const wordsDone = entries.reduce(
+    (sum, entry) =>
+      sum + (entry.id === currentId ? Math.min(currentIndex, entry.wordCount) : entry.state === 'queued' ? 0 : entry.wordCount),
+    0
+  );
+  const wordsLeft = entries
+    .filter(entry => entry.state === 'queued' && entry.id !== currentId)
+    .reduce((sum, entry) => sum + entry.wordCount, 0);
+  return { totalWords, wordsDone, wordsLeft, fraction: totalWords > 0 ? wordsDone / totalWords : 0 };
+};
@@ -0,0 +1,38 @@
+import { QuizResult, ReaderSettings, ReadingSession } from '../types';
+import { STORES, getAllRecords, putRecord, createId } from './storage';
+import { SessionStats } from './sessionTracker';
+
+export const createSessionRecord = (
+  stats: SessionStats,
+  settings: ReaderSettings,
+  documentId: string | null,
+  documentTitle: string
+): ReadingSession => {
+  const endedAt = Date.now();
+  const elapsedMs = Math.max(endedAt - stats.startedAt, stats.activeMs);
+  return {
+    id: createId(),
+    documentId,
+    documentTitle,
+    startedAt: stats.startedAt,
+    endedAt,
+    wordsRead: stats.wordsRead,
+    activeMs: Math.round(stats.activeMs),
+    averageWpm: elapsedMs > 0 ? Math.round((stats.wordsRead / elapsedMs) * 60000) : 0,
+    pauseCount: stats.pauseCount,
+    rewindCount: stats.rewindCount,
+    settings: { ...settings },
+  };
+};
+
+export const attachQuizResult = (session: ReadingSession, result: QuizResult): ReadingSession => ({
+  ...session,
+  effectiveWpm: result.effectiveWpm,
+  quizAccuracy: result.accuracy,
+});
+
+// Oldest first, the natural order for trends
+export const listSessions = async (): Promise<ReadingSession[]> =>
+  (await getAllRecords<ReadingSession>(STORES.sessions)).sort((a, b) => a.startedAt - b.startedAt);
+
+export const saveSession = (session: ReadingSession): Promise<void> => putRecord(STORES.sessions, session);
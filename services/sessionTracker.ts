@@ -0,0 +1,67 @@
+// Measures one reading session inside the Reader: how many words were
+// actually flashed, how long playback ran, and how often the reader
+// paused or went back.
+
+export interface SessionStats {
+  startedAt: number; // ms since epoch, 0 until playback first starts
+  wordsRead: number;
+  activeMs: number; // Time spent playing
+  pauseCount: number;
+  rewindCount: number;
+}
+
+export interface SessionTracker {
+  start: () => void; // Playback started or resumed
+  stop: () => void; // Playback stopped for any reason
+  advance: (words: number) => void;
+  notePause: () => void; // The reader paused on purpose
+  noteRewind: () => void;
+  stats: () => SessionStats;
+  hasActivity: () => boolean;
+  reset: () => void;
+}
+
+export const createSessionTracker = (): SessionTracker => {
+  let startedAt = 0;
+  let wordsRead = 0;
+  let activeMs = 0;
+  let pauseCount = 0;
+  let rewindCount = 0;
+  let playStart: number | null = null;
+
+  return {
+    start: () => {
+      if (!startedAt) startedAt = Date.now();
+      if (playStart === null) playStart = performance.now();
+    },
+    stop: () => {
+      if (playStart !== null) {
+        activeMs += performance.now() - playStart;
+        playStart = null;
+      }
+    },
+    advance: (words) => { wordsRead += words; },
+    notePause: () => { pauseCount++; },
+    noteRewind: () => { rewindCount++; },
+    // Includes the running play segment, which is only folded in on stop()
+    stats: () => ({
+      startedAt,
+      wordsRead,
+      activeMs: activeMs + (playStart !== null ? performance.now() - playStart : 0),
+      pauseCount,
+      rewindCount,
+    }),
+    hasActivity: () => wordsRead > 0,
+    reset: () => {
+      startedAt = 0;
+      wordsRead = 0;
+      activeMs = 0;
+      pauseCount = 0;
+      rewindCount = 0;
+      playStart = null;
+    },
+  };
+};
+
+// Words per minute over the time spent playing
+export const playingWpm = ({ wordsRead, activeMs }: SessionStats) => (activeMs > 0 ? (wordsRead / activeMs) * 60000 : 0);
@@ -0,0 +1,71 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Every object store is keyed by an "id" property.
+
+const DB_NAME = 'speedyreader-ai';
+const DB_VERSION = 6;
+
+export const STORES = {
+  documents: 'documents',
+  quizResults: 'quizResults',
+  sessions: 'sessions',
+  trainingPrograms: 'trainingPrograms',
+  aiResults: 'aiResults',
+  annotations: 'annotations',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllRecords = <T>(store: StoreName): Promise<T[]> =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const getRecord = <T>(store: StoreName, id: string): Promise<T | undefined> =>
+  run<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const putRecord = async <T>(store: StoreName, record: T): Promise<void> => {
+  await run(store, 'readwrite', s => s.put(record));
+};
+
+export const deleteRecord = async (store: StoreName, id: string): Promise<void> => {
+  await run(store, 'readwrite', s => s.delete(id));
+};
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,70 @@
+import { StructureKind, StructurePolicy, StructureSettings } from '../types';
+import { ContentBlock } from './textStructure';
+import { loadJson, saveJson } from './localSettings';
+
+// Per-kind handling of code, tables, lists and links found in the text
+
+const STORAGE_KEY = 'speedyreader.structure';
+
+export const STRUCTURE_KINDS: { id: StructureKind; label: string; description: string }[] = [
+  { id: 'code', label: 'Code blocks', description: 'Fenced code (```), shown with its layout intact.' },
+  { id: 'table', label: 'Tables', description: 'Markdown pipe tables, shown as a grid.' },
+  { id: 'list', label: 'Lists', description: 'Bulleted and numbered lists; read, items are marked.' },
+  { id: 'link', label: 'Links', description: 'Links and URLs; read, a URL flashes as its site name.' },
+];
+
+export const STRUCTURE_POLICIES: { id: StructurePolicy; label: string }[] = [
+  { id: 'pause', label: 'Pause & show' },
+  { id: 'skip', label: 'Skip' },
+  { id: 'read', label: 'Read' },
+];
+
+export const DEFAULT_STRUCTURE_SETTINGS: StructureSettings = { code: 'pause', table: 'pause', list: 'read', link: 'read' };
+
+/**
+ * The outermost block containing a word that is not read word by word, or
+ * null. Outer blocks decide: a link inside a skipped table is skipped too.
+ */
+export const handledBlockAt = (blocks: ContentBlock[], settings: StructureSettings, wordIndex: number): ContentBlock | null => {
+  for (const block of blocks) {
+    if (block.startIndex > wordIndex) break;
+    if (wordIndex < block.endIndex && settings[block.kind] !== 'read') return block;
+  }
+  return null;
+};
+
+// First word at or after the given one that is not inside a skipped block
+export const skipBlocks = (blocks: ContentBlock[], settings: StructureSettings, wordIndex: number): number => {
+  let index = wordIndex;
+  for (let block = handledBlockAt(blocks, settings, index); block && settings[block.kind] === 'skip'; block = handledBlockAt(blocks, settings, index)) {
+    index = block.endIndex;
+  }
+  return index;
+};
+
+// Word ranges [start, end) that are never flashed, without overlaps
+export const unflashedRanges = (blocks: ContentBlock[], settings: StructureSettings): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const block of blocks) {
+    if (settings[block.kind] === 'read') continue;
+    const last = ranges[ranges.length - 1];
+    if (last && block.startIndex < last[1]) last[1] = Math.max(last[1], block.endIndex);
+    else ranges.push([block.startIndex, block.endIndex]);
+  }
+  return ranges;
+};
+
+export const loadStructureSettings = (): StructureSettings =>
+  loadJson<StructureSettings>(
+    STORAGE_KEY,
+    stored => {
+      const settings = { ...DEFAULT_STRUCTURE_SETTINGS };
+      STRUCTURE_KINDS.forEach(({ id }) => {
+        if (STRUCTURE_POLICIES.some(p => p.id === stored[id])) settings[id] = stored[id]!;
+      });
+      return settings;
+    },
+    () => ({ ...DEFAULT_STRUCTURE_SETTINGS })
+  );
+
+export const saveStructureSettings = (settings: StructureSettings) => saveJson(STORAGE_KEY, settings);
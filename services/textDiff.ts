@@ -0,0 +1,162 @@
+// Word-level diff between a text and its AI transformation, split into
+// changes that can be accepted or rejected one by one.
+
+export type DiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; id: number; removed: string; added: string };
+
+type Edit = 'equal' | 'delete' | 'insert';
+
+// Words keep their trailing whitespace, so joining tokens gives back the text exactly
+const tokenize = (text: string): string[] => text.match(/\S+\s*|\s+/g) || [];
+
+// Beyond this many inserted plus deleted words the word diff gives up; see diffText
+const MAX_EDITS = 2000;
+
+/**
+ * Shortest edit script between two token lists (Myers' O(ND) algorithm), or
+ * null when it needs more than `maxEdits` insertions and deletions.
+ */
+const shortestEdits = (a: string[], b: string[], maxEdits: number): Edit[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds diagonals -d-1..d+1 of v after step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+        return backtrack(trace, n, m);
+      }
+    }
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number): Edit[] => {
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d]; // Diagonal k of step d - 1
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      edits.push('equal');
+      x--;
+      y--;
+    }
+    edits.push(x === prevX ? 'insert' : 'delete');
+    x = prevX;
+    y = prevY;
+  }
+  while (x > 0 && y > 0) {
+    edits.push('equal');
+    x--;
+    y--;
+  }
+  return edits.reverse();
+};
+
+// Common leading and trailing words are matched up front so only the middle is searched
+const diffTokens = (a: string[], b: string[]): Edit[] | null => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  const middle = shortestEdits(a.slice(start, a.length - end), b.slice(start, b.length - end), MAX_EDITS);
+  if (!middle) return null;
+  return [...Array<Edit>(start).fill('equal'), ...middle, ...Array<Edit>(end).fill('equal')];
+};
+
+// Runs of deletions and insertions between equal words become one change
+const toSegments = (a: string[], b: string[], edits: Edit[]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  for (const edit of edits) {
+    const last = segments[segments.length - 1];
+    if (edit === 'equal') {
+      if (last?.type === 'equal') last.text += a[i];
+      else segments.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else {
+      const change = last?.type === 'change' ? last : { type: 'change' as const, id: 0, removed: '', added: '' };
+      if (change !== last) segments.push(change);
+      if (edit === 'delete') change.removed += a[i++];
+      else change.added += b[j++];
+    }
+  }
+  return segments;
+};
+
+const diffBlock = (before: string, after: string): DiffSegment[] => {
+  if (before === after) return before ? [{ type: 'equal', text: before }] : [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const edits = diffTokens(a, b);
+  return edits ? toSegments(a, b, edits) : [{ type: 'change', id: 0, removed: before, added: after }];
+};
+
+// Paragraphs with their trailing blank lines
+const splitParagraphs = (text: string): string[] => {
+  const pieces = text.split(/(\n\s*\n)/);
+  const paragraphs: string[] = [];
+  for (let i = 0; i < pieces.length; i += 2) paragraphs.push(pieces[i] + (pieces[i + 1] || ''));
+  return paragraphs;
+};
+
+/**
+ * Diff of two versions of a text. Texts too different for one word diff are
+ * compared paragraph by paragraph when the paragraph count is unchanged, as
+ * it is for part-by-part AI transforms; otherwise the whole text is a single
+ * change.
+ */
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  let segments = diffBlock(before, after);
+  if (segments.length === 1 && segments[0].type === 'change' && before && after) {
+    const oldParagraphs = splitParagraphs(before);
+    const newParagraphs = splitParagraphs(after);
+    if (oldParagraphs.length > 1 && oldParagraphs.length === newParagraphs.length) {
+      segments = oldParagraphs.flatMap((paragraph, i) => diffBlock(paragraph, newParagraphs[i]));
+    }
+  }
+
+  // Merge neighbours from different blocks and number the changes
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last?.type === 'equal' && segment.type === 'equal') last.text += segment.text;
+    else if (last?.type === 'change' && segment.type === 'change') {
+      last.removed += segment.removed;
+      last.added += segment.added;
+    } else merged.push({ ...segment });
+  }
+  let id = 0;
+  merged.forEach(segment => {
+    if (segment.type === 'change') segment.id = id++;
+  });
+  return merged;
+};
+
+export const countChanges = (segments: DiffSegment[]) => segments.filter(s => s.type === 'change').length;
+
+// The text with every change applied except the rejected ones
+export const applyDiff = (segments: DiffSegment[], rejected: Set<number>): string =>
+  segments.map(s => (s.type === 'equal' ? s.text : rejected.has(s.id) ? s.removed : s.added)).join('');
@@ -0,0 +1,62 @@
+// Versioned history of the input text for undo/redo. Every AI result, import
+// or clear is its own version; a burst of typing is merged into one.
+
+export interface TextVersion {
+  text: string;
+  label: string; // What produced this version, e.g. "Summary"
+  at: number;
+}
+
+export interface TextHistory {
+  versions: TextVersion[];
+  index: number; // The version currently shown
+}
+
+export const TYPING_LABEL = 'Typing';
+
+const MAX_VERSIONS = 100;
+// Oldest versions are dropped past this many characters so long documents can't exhaust memory
+const MAX_TOTAL_CHARS = 20_000_000;
+// Keystrokes closer together than this belong to the same version
+const TYPING_MERGE_MS = 1000;
+
+export const createHistory = (text: string): TextHistory => ({
+  versions: [{ text, label: 'Original', at: Date.now() }],
+  index: 0,
+});
+
+export const currentText = (history: TextHistory) => history.versions[history.index].text;
+
+export const canUndo = (history: TextHistory) => history.index > 0;
+
+export const canRedo = (history: TextHistory) => history.index < history.versions.length - 1;
+
+/**
+ * Adds a version after the current one, discarding anything that was undone.
+ * Unchanged text adds nothing.
+ */
+export const recordVersion = (history: TextHistory, text: string, label: string, now = Date.now()): TextHistory => {
+  const current = history.versions[history.index];
+  if (text === current.text) return history;
+  const versions = history.versions.slice(0, history.index + 1);
+
+  const isLatest = history.index === history.versions.length - 1;
+  if (label === TYPING_LABEL && current.label === TYPING_LABEL && isLatest && now - current.at < TYPING_MERGE_MS) {
+    versions[versions.length - 1] = { text, label, at: now };
+  } else {
+    versions.push({ text, label, at: now });
+  }
+
+  let total = versions.reduce((sum, v) => sum + v.text.length, 0);
+  while (versions.length > 2 && (versions.length > MAX_VERSIONS || total > MAX_TOTAL_CHARS)) {
+    total -= versions.shift()!.text.length;
+  }
+  return { versions, index: versions.length - 1 };
+};
+
+export const goToVersion = (history: TextHistory, index: number): TextHistory =>
+  index >= 0 && index < history.versions.length ? { ...history, index } : history;
+
+export const undo = (history: TextHistory) => goToVersion(history, history.index - 1);
+
+export const redo = (history: TextHistory) => goToVersion(history, history.index + 1);
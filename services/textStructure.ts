@@ -0,0 +1,349 @@
+import { Chapter, StructureKind } from '../types';
+import { detectLanguage, LanguageInfo } from './language';
+import { tokenizeLine } from './tokenizer';
+
+// Markdown-style ATX heading: "## Chapter Two"
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+
+// A word that closes a sentence, allowing trailing quotes/brackets: 'end."'
+const SENTENCE_END = /[.!?…。！？؟]["'”’)\]」』]*$/;
+
+// Opening or closing code fence: "```ts", "~~~"
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+
+// Bullet or numbered list item: "- milk", "  * eggs", "2) flour"
+const LIST_ITEM_PATTERN = /^(\s*)([-*+•]|\d{1,3}[.)])\s+(.*)$/;
+
+// The row under a Markdown table header: "|---|:--:|"
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// Markdown link "[text](url)" or a bare URL, which must not end on punctuation
+const LINK_PATTERN = /\[([^\]\n]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)|(?:https?:\/\/|www\.)[^\s<>()]*[^\s<>().,;:!?'"”’]/gu;
+
+/**
+ * A run of code, a table, a list or a link. Its words stay in the word list
+ * so positions are stable whichever way the reader handles it; the rest is
+ * what a static view needs to show it as written.
+ */
+export interface ContentBlock {
+  kind: StructureKind;
+  startIndex: number; // First word
+  endIndex: number; // One past the last word
+  lines: string[]; // Code lines, list items (with their markers) or link text
+  rows?: string[][]; // Tables: cells per row, header first
+  href?: string; // Links only
+  language?: string; // Code only: the fence's info string, e.g. "ts"
+}
+
+export interface ListItem {
+  startIndex: number;
+  endIndex: number;
+  marker: string; // "•", "◦" or "3."
+  depth: number; // 0 for top-level items
+}
+
+export interface StructuredText {
+  words: string[];
+  chapters: Chapter[];
+  sentenceStarts: number[]; // Ascending word indexes
+  paragraphStarts: number[]; // Ascending word indexes
+  blocks: ContentBlock[]; // By start, outer blocks before the links inside them
+  listItems: ListItem[];
+  language: LanguageInfo;
+}
+
+// What the display shows alongside a word to say where it sits
+export type WordCue =
+  | { kind: 'heading'; level: number }
+  | { kind: 'listItem'; marker: string; depth: number }
+  | { kind: 'code' | 'table' | 'link' };
+
+// "https://www.example.com/a/b?c" -> "example.com/…", one word instead of a string of fragments
+const shortenUrl = (url: string): string => {
+  const rest = url.replace(/^https?:\/\//i, '').replace(/^www\./i, '');
+  const slash = rest.search(/[/?#]/);
+  if (slash < 0) return rest;
+  return rest.length > slash + 1 ? `${rest.slice(0, slash)}/…` : rest.slice(0, slash);
+};
+
+// Static views show a Markdown link as its text
+const linkText = (markdown: string) => markdown.replace(/\[([^\]\n]+)\]\([^)]*\)/g, '$1');
+
+const tableCells = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+/**
+ * Splits text into reader words while extracting the heading outline and
+ * sentence/paragraph boundaries. Heading markers are stripped so only the
+ * heading words are flashed. Words come from the language-aware tokenizer,
+ * so Chinese, Japanese and Thai are segmented and overlong tokens hyphenated.
+ *
+ * Paragraphs are separated by blank lines, headings, or a line break after a
+ * sentence end (so hard-wrapped lines inside a sentence stay together).
+ *
+ * Markdown structure is recognised too: fenced code, pipe tables and lists
+ * each become one paragraph with a sentence per line, row or item, with the
+ * fences, pipes and markers left out of the words. Links read as their text
+ * and bare URLs as a single shortened word.
+ */
+export const parseStructuredText = (text: string): StructuredText => {
+  const language = detectLanguage(text);
+  const words: string[] = [];
+  const chapters: Chapter[] = [];
+  const sentenceStarts: number[] = [];
+  const paragraphStarts: number[] = [];
+  const blocks: ContentBlock[] = [];
+  const listItems: ListItem[] = [];
+  let breakPending = true;
+
+  const markStart = (list: number[]) => {
+    if (list[list.length - 1] !== words.length) list.push(words.length);
+  };
+
+  const pushWords = (lineWords: string[]) => {
+    lineWords.forEach(word => {
+      if (words.length > 0 && SENTENCE_END.test(words[words.length - 1])) markStart(sentenceStarts);
+      words.push(word);
+    });
+  };
+
+  // Text directly after a link ("[docs](…).") sticks to the link's last word
+  const pushText = (segment: string, glued: boolean) => {
+    const segmentWords = tokenizeLine(segment, language.language);
+    if (glued && segmentWords.length > 0 && words.length > 0 && !/^\s/.test(segment)) {
+      words[words.length - 1] += segmentWords.shift();
+    }
+    pushWords(segmentWords);
+  };
+
+  // Pushes a line's words, recording each link in it as a block
+  const pushLine = (line: string) => {
+    const lineStart = words.length;
+    let last = 0;
+    for (const match of line.matchAll(LINK_PATTERN)) {
+      pushText(line.slice(last, match.index), words.length > lineStart);
+      const link: ContentBlock = { kind: 'link', startIndex: words.length, endIndex: 0, lines: [], href: match[2] || match[0] };
+      if (match[1]) {
+        pushText(match[1], false);
+        link.lines.push(match[1]);
+      } else {
+        pushWords([shortenUrl(match[0])]);
+        link.lines.push(match[0]);
+        if (!/^[a-z]+:/i.test(link.href!)) link.href = `https://${link.href}`;
+      }
+      link.endIndex = words.length;
+      if (link.endIndex > link.startIndex) blocks.push(link);
+      last = match.index! + match[0].length;
+    }
+    pushText(line.slice(last), words.length > lineStart);
+  };
+
+  let fence: { marker: string; block: ContentBlock } | null = null;
+  let table: ContentBlock | null = null;
+  let list: ContentBlock | null = null;
+
+  const openBlock = (kind: StructureKind, extra: Partial<ContentBlock> = {}): ContentBlock => {
+    markStart(paragraphStarts);
+    markStart(sentenceStarts);
+    return { kind, startIndex: words.length, endIndex: words.length, lines: [], ...extra };
+  };
+
+  // Blocks without words (an empty code fence) have nothing to show or skip
+  const closeBlock = (block: ContentBlock | null) => {
+    if (!block) return;
+    block.endIndex = words.length;
+    if (block.endIndex > block.startIndex) blocks.push(block);
+    breakPending = true;
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      const closing = FENCE_PATTERN.exec(line);
+      if (closing && closing[1][0] === fence.marker[0] && closing[1].length >= fence.marker.length && !closing[2]) {
+        closeBlock(fence.block);
+        fence = null;
+        continue;
+      }
+      fence.block.lines.push(line);
+      const lineWords = tokenizeLine(line, language.language);
+      if (lineWords.length > 0) markStart(sentenceStarts);
+      pushWords(lineWords);
+      continue;
+    }
+
+    const opening = FENCE_PATTERN.exec(line);
+    if (opening) {
+      closeBlock(table);
+      closeBlock(list);
+      table = list = null;
+      fence = { marker: opening[1], block: openBlock('code', opening[2] ? { language: opening[2] } : {}) };
+      continue;
+    }
+
+    if (table) {
+      if (line.includes('|')) {
+        if (TABLE_SEPARATOR.test(line)) continue;
+        const cells = tableCells(line);
+        table.rows!.push(cells.map(linkText));
+        markStart(sentenceStarts);
+        cells.forEach(cell => pushLine(cell));
+        continue;
+      }
+      closeBlock(table);
+      table = null;
+    }
+
+    // A table is a header row followed by a separator row
+    if (line.includes('|') && i + 1 < lines.length && lines[i + 1].includes('|') && TABLE_SEPARATOR.test(lines[i + 1])) {
+      closeBlock(list);
+      list = null;
+      table = openBlock('table', { rows: [] });
+      i--; // Read the header again as the first row
+      continue;
+    }
+
+    const item = LIST_ITEM_PATTERN.exec(line);
+    if (item && item[3].trim()) {
+      if (!list) list = openBlock('list');
+      const depth = Math.floor(item[1].replace(/\t/g, '  ').length / 2);
+      const marker = /\d/.test(item[2]) ? `${parseInt(item[2], 10)}.` : depth > 0 ? '◦' : '•';
+      list.lines.push(`${'  '.repeat(depth)}${marker} ${linkText(item[3].trim())}`);
+      markStart(sentenceStarts);
+      const startIndex = words.length;
+      pushLine(item[3]);
+      listItems.push({ startIndex, endIndex: words.length, marker, depth });
+      continue;
+    }
+    if (list && line.trim()) {
+      // Indented lines continue the item above them
+      const lastItem = listItems[listItems.length - 1];
+      if (/^\s{2,}/.test(line) && lastItem) {
+        list.lines[list.lines.length - 1] += ` ${linkText(line.trim())}`;
+        pushLine(line);
+        lastItem.endIndex = words.length;
+        continue;
+      }
+      closeBlock(list);
+      list = null;
+    }
+    if (list) continue; // Blank lines inside a list
+
+    const heading = HEADING_PATTERN.exec(line);
+    const content = heading ? heading[2] : line;
+
+    if (!content.trim()) {
+      breakPending = true;
+      continue;
+    }
+    const previous = words[words.length - 1];
+    if (heading || breakPending || (previous && SENTENCE_END.test(previous))) {
+      markStart(paragraphStarts);
+      markStart(sentenceStarts);
+    }
+
+    if (heading) {
+      chapters.push({
+        title: heading[2].replace(/\s+/g, ' '),
+        level: heading[1].length,
+        startIndex: words.length,
+      });
+    }
+
+    pushLine(content);
+    // A heading is its own paragraph; whatever follows starts a new one
+    breakPending = !!heading;
+  }
+  // An unclosed fence runs to the end of the text, as in Markdown
+  closeBlock(fence?.block ?? null);
+  closeBlock(table);
+  closeBlock(list);
+
+  blocks.sort((a, b) => a.startIndex - b.startIndex || b.endIndex - a.endIndex);
+  return { words, chapters, sentenceStarts, paragraphStarts, blocks, listItems, language };
+};
+
+// Index of the chapter containing the given word, or -1 before the first heading
+export const findChapterIndex = (chapters: Chapter[], wordIndex: number): number => {
+  let found = -1;
+  for (let i = 0; i < chapters.length; i++) {
+    if (chapters[i].startIndex > wordIndex) break;
+    found = i;
+  }
+  return found;
+};
+
+// Start of the previous unit: the current unit's start when inside it, else the one before
+export const previousBoundary = (starts: number[], wordIndex: number): number => {
+  let found = 0;
+  for (const start of starts) {
+    if (start >= wordIndex) break;
+    found = start;
+  }
+  return found;
+};
+
+// Start of the next unit, or -1 when already in the last one
+export const nextBoundary = (starts: number[], wordIndex: number): number =>
+  starts.find(start => start > wordIndex) ?? -1;
+
+// Start of the unit containing the given word
+export const boundaryAt = (starts: number[], wordIndex: number): number => previousBoundary(starts, wordIndex + 1);
+
+/**
+ * Word range [start, end) to show around a position: its whole paragraph, or
+ * for overlong paragraphs just the sentence with one sentence either side.
+ */
+export const contextRange = (
+  structure: Pick<StructuredText, 'sentenceStarts' | 'paragraphStarts'>,
+  wordCount: number,
+  wordIndex: number,
+  maxWords = 150
+): { start: number; end: number } => {
+  const start = boundaryAt(structure.paragraphStarts, wordIndex);
+  const next = nextBoundary(structure.paragraphStarts, wordIndex);
+  const end = next >= 0 ? next : wordCount;
+  if (end - start <= maxWords) return { start, end };
+
+  const sentenceStart = boundaryAt(structure.sentenceStarts, wordIndex);
+  const following = nextBoundary(structure.sentenceStarts, wordIndex);
+  const afterFollowing = following >= 0 ? nextBoundary(structure.sentenceStarts, following) : -1;
+  return {
+    start: Math.max(start, previousBoundary(structure.sentenceStarts, sentenceStart)),
+    end: Math.min(end, afterFollowing >= 0 ? afterFollowing : wordCount),
+  };
+};
+
+// Forced chunk breaks, so no flash straddles a heading, block or list item edge
+export const structureBreaks = (
+  structure: Pick<StructuredText, 'chapters' | 'paragraphStarts' | 'blocks' | 'listItems'>
+): number[] => [
+  ...structure.chapters.flatMap(c => [c.startIndex, nextBoundary(structure.paragraphStarts, c.startIndex)]),
+  ...structure.blocks.flatMap(b => [b.startIndex, b.endIndex]),
+  ...structure.listItems.map(item => item.startIndex),
+];
+
+// How to mark the word: the innermost block wins, then a heading, then a list item
+export const cueAt = (
+  structure: Pick<StructuredText, 'chapters' | 'paragraphStarts' | 'blocks' | 'listItems'>,
+  wordIndex: number
+): WordCue | null => {
+  let block: ContentBlock | null = null;
+  for (const b of structure.blocks) {
+    if (b.startIndex > wordIndex) break;
+    if (wordIndex < b.endIndex) block = b;
+  }
+  if (block && block.kind !== 'list') return { kind: block.kind };
+
+  const chapterIndex = findChapterIndex(structure.chapters, wordIndex);
+  if (chapterIndex >= 0) {
+    const chapter = structure.chapters[chapterIndex];
+    const end = nextBoundary(structure.paragraphStarts, chapter.startIndex);
+    if (end < 0 || wordIndex < end) return { kind: 'heading', level: chapter.level };
+  }
+
+  const item = structure.listItems.find(i => wordIndex >= i.startIndex && wordIndex < i.endIndex);
+  return item ? { kind: 'listItem', marker: item.marker, depth: item.depth } : null;
+};
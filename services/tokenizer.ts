@@ -0,0 +1,112 @@
+import { UNSPACED_CHAR } from './language';
+
+// Tokens longer than this are hyphenated so they fit the display
+export const MAX_TOKEN_CHARS = 18;
+const MIN_FRAGMENT_CHARS = 4;
+
+const VOWEL = /[aeiouyàáâãäåæèéêëìíîïòóôõöøùúûüœ]/i;
+const LETTER = /\p{L}/u;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+// Places where URLs, paths and compounds can break without adding a hyphen
+const NATURAL_BREAK = /[-/._?&=#–—]/;
+// Letter pairs that spell one sound and must not be split
+const DIGRAPHS = new Set(['ch', 'ck', 'gh', 'ph', 'sh', 'th', 'qu']);
+
+const segmenters = new Map<string, Intl.Segmenter | null>();
+
+const getSegmenter = (language: string): Intl.Segmenter | null => {
+  if (!segmenters.has(language)) {
+    let segmenter: Intl.Segmenter | null = null;
+    if (typeof Intl.Segmenter === 'function') {
+      try {
+        segmenter = new Intl.Segmenter(language === 'und' ? 'en' : language, { granularity: 'word' });
+      } catch (error) {
+        console.error("Error creating word segmenter:", error);
+      }
+    }
+    segmenters.set(language, segmenter);
+  }
+  return segmenters.get(language)!;
+};
+
+/**
+ * Splits a run of unspaced script (Chinese, Japanese, Thai) into words.
+ * Punctuation and other non-word segments stay attached to the preceding
+ * word, matching how space-separated text keeps "end." together.
+ */
+const segmentUnspaced = (token: string, language: string): string[] => {
+  const segmenter = getSegmenter(language);
+  // Without Intl.Segmenter, CJK falls back to single characters; Thai is left to hyphenation
+  const segments = segmenter
+    ? Array.from(segmenter.segment(token), s => ({ text: s.segment, isWord: !!s.isWordLike }))
+    : (token.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu) || [])
+        .map(text => ({ text, isWord: /[\p{L}\p{N}]/u.test(text) }));
+
+  const words: string[] = [];
+  for (const { text, isWord } of segments) {
+    if (!isWord && words.length > 0) words[words.length - 1] += text;
+    else words.push(text);
+  }
+  // Leading punctuation ("「") joins the word that follows it
+  if (words.length > 1 && !/[\p{L}\p{N}]/u.test(words[0])) {
+    words.splice(0, 2, words[0] + words[1]);
+  }
+  return words;
+};
+
+// Best break position in a word: after a natural break character, then before
+// a consonant-vowel syllable onset (after a consonant, then after a vowel)
+const findBreak = (token: string, maxChars: number): number => {
+  const limit = Math.min(maxChars, token.length - MIN_FRAGMENT_CHARS);
+  for (let i = limit; i >= MIN_FRAGMENT_CHARS; i--) {
+    if (NATURAL_BREAK.test(token[i - 1]) && !NATURAL_BREAK.test(token[i])) return i;
+  }
+  const isConsonant = (c: string) => LETTER.test(c) && !VOWEL.test(c);
+  for (let i = limit; i >= MIN_FRAGMENT_CHARS; i--) {
+    if (isConsonant(token[i - 1]) && isConsonant(token[i]) && VOWEL.test(token[i + 1] || '') && !DIGRAPHS.has((token[i - 1] + token[i]).toLowerCase())) return i;
+  }
+  for (let i = limit; i >= MIN_FRAGMENT_CHARS; i--) {
+    if (VOWEL.test(token[i - 1]) && isConsonant(token[i]) && VOWEL.test(token[i + 1] || '')) return i;
+  }
+  return limit >= MIN_FRAGMENT_CHARS ? limit : maxChars;
+};
+
+/**
+ * Splits an overlong token ("Donaudampfschifffahrt", a URL) into display-sized
+ * pieces. Pieces broken inside a word end with a hyphen; breaks after "/", "-"
+ * and similar characters need none.
+ */
+export const hyphenate = (token: string, maxChars = MAX_TOKEN_CHARS): string[] => {
+  const pieces: string[] = [];
+  let rest = token;
+  while (rest.length > maxChars) {
+    const at = findBreak(rest, maxChars);
+    const head = rest.slice(0, at);
+    pieces.push(NATURAL_BREAK.test(head[head.length - 1]) || !LETTER.test(head[head.length - 1]) ? head : `${head}-`);
+    rest = rest.slice(at);
+  }
+  pieces.push(rest);
+  return pieces;
+};
+
+// Splits one line of text into reader words, in any script
+export const tokenizeLine = (line: string, language: string): string[] => {
+  const tokens: string[] = [];
+  for (const token of line.split(/\s+/)) {
+    if (!token) continue;
+    const words = UNSPACED_CHAR.test(token) ? segmentUnspaced(token, language) : [token];
+    words.forEach(word => {
+      if (word.length > MAX_TOKEN_CHARS && !CJK_CHAR.test(word)) tokens.push(...hyphenate(word));
+      else tokens.push(word);
+    });
+  }
+  return tokens;
+};
+
+// Joins reader words back into display text, without spaces between unspaced-script words
+export const joinWords = (words: string[]): string =>
+  words.reduce((text, word, i) => {
+    if (i === 0) return word;
+    const glue = UNSPACED_CHAR.test(words[i - 1]) && UNSPACED_CHAR.test(word) ? '' : ' ';
+    return text + glue + word;
+  }, '');
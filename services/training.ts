@@ -0,0 +1,119 @@
+import { TrainingKind, TrainingProgram } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord, createId } from './storage';
+import { rangeDelay } from './pacing';
+
+// A training program sets the speed from how far into the session the reader
+// is, counted in words read, so pausing never advances it.
+
+export const TRAINING_KINDS: Record<TrainingKind, { label: string; description: string }> = {
+  ramp: { label: 'Linear ramp', description: 'Speed rises steadily from the start to the target, then holds.' },
+  intervals: { label: 'Interval sprints', description: 'Sprints above your comfort speed alternate with recovery below it.' },
+  push: { label: 'Push', description: 'Speed steps up at regular intervals until it reaches the target.' },
+};
+
+export const BUILT_IN_PROGRAMS: TrainingProgram[] = [
+  { id: 'builtin-ramp', name: 'Warm-up ramp', kind: 'ramp', startWpm: 250, targetWpm: 450, segmentWords: 1500, recoveryWords: 0, stepWpm: 0, builtIn: true },
+  { id: 'builtin-intervals', name: 'Sprint intervals', kind: 'intervals', startWpm: 300, targetWpm: 550, segmentWords: 150, recoveryWords: 300, stepWpm: 0, builtIn: true },
+  { id: 'builtin-push', name: 'Steady push', kind: 'push', startWpm: 300, targetWpm: 600, segmentWords: 400, recoveryWords: 0, stepWpm: 50, builtIn: true },
+];
+
+export const createTrainingProgram = (kind: TrainingKind = 'ramp'): TrainingProgram => ({
+  ...BUILT_IN_PROGRAMS.find(p => p.kind === kind)!,
+  id: createId(),
+  name: `My ${TRAINING_KINDS[kind].label.toLowerCase()}`,
+  builtIn: false,
+});
+
+// Ramps move in 5 WPM steps, fine enough to feel continuous
+const roundWpm = (wpm: number) => Math.round(wpm / 5) * 5;
+
+const pushSteps = (program: TrainingProgram) =>
+  program.stepWpm > 0 ? Math.ceil(Math.max(0, program.targetWpm - program.startWpm) / program.stepWpm) : 0;
+
+// Target speed after the given number of words
+export const programWpm = (program: TrainingProgram, wordsRead: number): number => {
+  switch (program.kind) {
+    case 'ramp': {
+      const t = program.segmentWords > 0 ? Math.min(1, wordsRead / program.segmentWords) : 1;
+      return roundWpm(program.startWpm + (program.targetWpm - program.startWpm) * t);
+    }
+    case 'intervals': {
+      const cycle = program.segmentWords + program.recoveryWords;
+      if (cycle <= 0) return program.startWpm;
+      return wordsRead % cycle < program.segmentWords ? program.targetWpm : program.startWpm;
+    }
+    case 'push': {
+      const step = program.segmentWords > 0 ? Math.floor(wordsRead / program.segmentWords) : 0;
+      return Math.min(program.targetWpm, program.startWpm + Math.min(step, pushSteps(program)) * program.stepWpm);
+    }
+  }
+};
+
+// Words per block when estimating time left; the speed is taken as constant within a block
+const ESTIMATE_BLOCK_WORDS = 50;
+
+/**
+ * Playing time left from a word to the end of the text when the program keeps
+ * setting the speed. `wordsRead` is how far into the program the reader is.
+ * `excluded` word ranges are never flashed, so they take no time and don't
+ * move the program on.
+ */
+export const programRemainingMs = (
+  timeline: Float64Array,
+  wordIndex: number,
+  program: TrainingProgram,
+  wordsRead: number,
+  excluded: [number, number][] = []
+): number => {
+  const end = timeline.length - 1;
+  const segments: [number, number][] = [];
+  let from = wordIndex;
+  for (const [start, stop] of excluded) {
+    if (stop <= from) continue;
+    if (start > from) segments.push([from, Math.min(start, end)]);
+    from = Math.max(from, stop);
+  }
+  segments.push([from, end]);
+
+  let total = 0;
+  let read = wordsRead;
+  for (const [segmentStart, segmentEnd] of segments) {
+    for (let start = segmentStart; start < segmentEnd; start += ESTIMATE_BLOCK_WORDS) {
+      const blockEnd = Math.min(segmentEnd, start + ESTIMATE_BLOCK_WORDS);
+      total += rangeDelay(timeline, start, blockEnd, programWpm(program, read + (blockEnd - start) / 2));
+      read += blockEnd - start;
+    }
+  }
+  return total;
+};
+
+// Short description of where the session is in the program, e.g. "Sprint 2"
+export const programPhase = (program: TrainingProgram, wordsRead: number): string => {
+  switch (program.kind) {
+    case 'ramp':
+      return wordsRead >= program.segmentWords
+        ? 'Holding target'
+        : `Ramping · ${Math.round((wordsRead / Math.max(1, program.segmentWords)) * 100)}%`;
+    case 'intervals': {
+      const cycle = Math.max(1, program.segmentWords + program.recoveryWords);
+      const round = Math.floor(wordsRead / cycle) + 1;
+      return wordsRead % cycle < program.segmentWords ? `Sprint ${round}` : `Recovery ${round}`;
+    }
+    case 'push': {
+      const steps = pushSteps(program);
+      const step = Math.floor(wordsRead / Math.max(1, program.segmentWords));
+      return step >= steps ? 'Holding target' : `Step ${step + 1} of ${steps + 1}`;
+    }
+  }
+};
+
+// Built-in programs first, then saved ones by name
+export const listPrograms = async (): Promise<TrainingProgram[]> => {
+  const saved = await getAllRecords<TrainingProgram>(STORES.trainingPrograms);
+  return [...BUILT_IN_PROGRAMS, ...saved.sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+export const saveProgram = (program: TrainingProgram): Promise<void> =>
+  putRecord(STORES.trainingPrograms, { ...program, builtIn: false });
+
+export const deleteProgram = (id: string): Promise<void> => deleteRecord(STORES.trainingPrograms, id);
@@ -0,0 +1,64 @@
+import { COMMON_WORDS } from './commonWords';
+
+// Readers recognize frequent words almost instantly; words outside the list
+// are treated as rare. The list holds the forms that occur most, so other
+// inflections are looked up through their stems.
+
+const RANKS = new Map<string, number>(COMMON_WORDS.map((word, i) => [word, i]));
+
+// Lowercased word with surrounding punctuation and possessive "'s" removed
+export const normalizeWord = (word: string): string =>
+  word
+    .toLowerCase()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .replace(/['’]s$/, '');
+
+// Regular English inflections, longest first: [suffix, replacements that may give the stem]
+const SUFFIXES: [string, string[]][] = [
+  ['iest', ['y']],
+  ['ies', ['y']],
+  ['ier', ['y']],
+  ['ily', ['y']],
+  ['ing', ['', 'e']],
+  ['est', ['', 'e']],
+  ['es', ['', 'e']],
+  ['ed', ['', 'e']],
+  ['er', ['', 'e']],
+  ['ly', ['', 'le']],
+  ['s', ['']],
+];
+
+// The word itself, then the stems it may be an inflection of, up to two suffixes deep
+// ("making" → "make", "stopped" → "stop", "researchers" → "researcher" → "research")
+const lookupForms = (word: string, depth = 2): string[] => {
+  const forms = [word];
+  if (depth === 0) return forms;
+  for (const [suffix, replacements] of SUFFIXES) {
+    if (!word.endsWith(suffix) || word.length - suffix.length < 2) continue;
+    const stem = word.slice(0, -suffix.length);
+    const stems = replacements.map(r => stem + r);
+    // Doubled final consonant: "running", "bigger"
+    if (/([b-df-hj-np-tv-z])\1$/.test(stem)) stems.push(stem.slice(0, -1));
+    for (const candidate of stems) forms.push(...lookupForms(candidate, depth - 1));
+  }
+  return forms;
+};
+
+// Frequency rank of a word or its stem (0 = most common), or -1 when it is not in the list
+export const wordRank = (word: string): number => {
+  for (const form of lookupForms(normalizeWord(word))) {
+    const rank = RANKS.get(form);
+    if (rank !== undefined) return rank;
+  }
+  return -1;
+};
+
+/**
+ * Whether a word is uncommon enough to need extra recognition time.
+ * Numbers and very short tokens are left to the other pacing rules.
+ */
+export const isRareWord = (word: string): boolean => {
+  const normalized = normalizeWord(word);
+  if (normalized.length < 4 || /\d/.test(normalized)) return false;
+  return wordRank(normalized) < 0;
+};
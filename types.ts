@@ -2,9 +2,233 @@ export interface ReaderSettings {
   wpm: number;
   chunkSize: number; // Words per flash (usually 1)
   fontSize: number; // in rem
+  recommendedWpm?: number; // Starting speed suggested by the text's readability
 }
 
 export enum AppState {
   INPUT = 'INPUT',
   READING = 'READING',
+  DASHBOARD = 'DASHBOARD',
+}
+
+export type DocumentFormat = 'pdf' | 'epub' | 'docx' | 'html' | 'markdown' | 'text';
+
+export interface ImportedDocument {
+  title: string;
+  format: DocumentFormat;
+  fileName: string;
+  // Plain text; the outline is kept as Markdown-style "#" heading lines
+  text: string;
+}
+
+export interface Chapter {
+  title: string;
+  level: number; // Heading depth, 1 = top level
+  startIndex: number; // Index of the first word of the chapter
+}
+
+export interface LibraryDocument {
+  id: string;
+  title: string;
+  source: string; // Original file name, or "Pasted text"
+  format: DocumentFormat;
+  text: string;
+  wordCount: number;
+  position: number; // Saved reading position (word index)
+  createdAt: number; // Timestamps in ms since epoch
+  lastReadAt: number;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl: string; // Only used by OpenAI-compatible endpoints
+}
+
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  answerIndex: number;
+}
+
+export interface QuizResult {
+  id: string;
+  documentId: string | null;
+  completedAt: number;
+  source: 'ai' | 'offline'; // Who wrote the questions
+  questionCount: number;
+  correctCount: number;
+  accuracy: number; // 0-1
+  wpm: number; // Achieved reading speed
+  effectiveWpm: number; // wpm scaled by accuracy
+}
+
+export interface ReadingSession {
+  id: string;
+  documentId: string | null;
+  documentTitle: string;
+  startedAt: number;
+  endedAt: number;
+  wordsRead: number; // Words flashed, re-read words included
+  activeMs: number; // Time spent playing
+  averageWpm: number; // Over the whole session, pauses and rewinds included
+  pauseCount: number;
+  rewindCount: number;
+  settings: ReaderSettings;
+  effectiveWpm?: number; // Set when a comprehension quiz followed the session
+  quizAccuracy?: number;
+}
+
+export type PacingProfileId = 'comprehension' | 'skim' | 'linear' | 'custom';
+
+// Factors applied to the base word duration (60000 / wpm)
+export interface PacingMultipliers {
+  longWordPerChar: number; // Extra time per character beyond 6
+  longWordCap: number; // Upper bound for the long-word extra
+  shortWord: number; // Words under 3 characters
+  number: number;
+  sentenceEnd: number;
+  clause: number; // Comma, semicolon, colon, dash
+  quote: number; // Closing quote or bracket
+  rareWord: number; // Words missing from the frequency list
+}
+
+export interface PacingSettings {
+  profile: PacingProfileId;
+  multipliers: PacingMultipliers;
+}
+
+export type OrpStrategy = 'table' | 'percentage' | 'vowel' | 'off';
+
+export interface OrpSettings {
+  strategy: OrpStrategy;
+  percentage: number; // 0-1, used by the 'percentage' strategy
+}
+
+export type TrainingKind = 'ramp' | 'intervals' | 'push';
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  kind: TrainingKind;
+  startWpm: number; // Ramp/push starting speed; interval recovery speed
+  targetWpm: number; // Ramp/push final speed; interval sprint speed
+  segmentWords: number; // Ramp length; push step length; sprint length
+  recoveryWords: number; // Intervals only
+  stepWpm: number; // Push only: increase per step
+  builtIn?: boolean;
+}
+
+export interface NarrationSettings {
+  enabled: boolean;
+  language: string; // BCP 47 tag, '' to follow the document
+  voiceURI: string; // '' for the best available voice for the language
+}
+
+export type FlowRuleId =
+  | 'dates'
+  | 'times'
+  | 'currency'
+  | 'percentages'
+  | 'ordinals'
+  | 'units'
+  | 'numbers'
+  | 'symbols'
+  | 'abbreviations';
+
+// Languages the offline flow optimizer has rules for
+export type FlowLanguage = 'en' | 'pt';
+
+export interface FlowSettings {
+  rules: Record<FlowRuleId, boolean>;
+  language: FlowLanguage | 'auto';
+  refineWithAI: boolean; // Send the result through the AI provider as a second pass
+}
+
+export type AnnotationKind = 'highlight' | 'bookmark';
+
+// A sentence marked while reading, tied to a library document
+export interface Annotation {
+  id: string;
+  documentId: string;
+  kind: AnnotationKind;
+  startIndex: number; // First word of the marked sentence
+  endIndex: number; // One past its last word
+  quote: string;
+  note: string;
+  chapterTitle?: string;
+  createdAt: number;
+}
+
+export type StructureKind = 'code' | 'table' | 'list' | 'link';
+
+// What the reader does on reaching a block: stop and show it as written,
+// jump past it, or flash its words like any other text
+export type StructurePolicy = 'pause' | 'skip' | 'read';
+
+export type StructureSettings = Record<StructureKind, StructurePolicy>;
+
+// RSVP flashes words in place; the pacer moves a highlight over the page
+export type ReadingMode = 'rsvp' | 'pacer';
+
+export type PacerUnit = 'words' | 'line'; // Pacer highlight: the current chunk or the whole line
+
+export interface ReadingModeSettings {
+  mode: ReadingMode;
+  pacerUnit: PacerUnit;
+}
+
+export type ReadingLevel = 'grade5' | 'grade8' | 'highSchool' | 'college' | 'academic';
+
+export type PracticeGenre = 'article' | 'story' | 'essay' | 'news' | 'explainer' | 'biography';
+
+export interface PracticeOptions {
+  topic: string; // '' for a random topic
+  words: number;
+  language: string; // BCP 47 tag
+  genre: PracticeGenre;
+  level: ReadingLevel;
+}
+
+export type ReaderFont = 'mono' | 'sans' | 'serif' | 'hyperlegible' | 'lexend' | 'dyslexic';
+
+export type ReaderTheme = 'dark' | 'light' | 'contrast';
+
+export type FocusGuideStyle = 'lines' | 'box' | 'crosshair' | 'none';
+
+export interface DisplaySettings {
+  font: ReaderFont;
+  letterSpacing: number; // em
+  pivotColor: string; // #rrggbb
+  theme: ReaderTheme;
+  focusGuide: FocusGuideStyle;
+  reducedMotion: boolean;
+}
+
+// A named set of reading and display settings, saved locally
+export interface ReaderProfile {
+  id: string;
+  name: string;
+  reader: Pick<ReaderSettings, 'wpm' | 'chunkSize' | 'fontSize'>; // wpm is the speed for standard prose
+  display: DisplaySettings;
+  updatedAt: number;
+}
+
+export type QueueItemState = 'queued' | 'read' | 'skipped';
+
+// A library document waiting in the reading queue
+export interface QueueItem {
+  id: string;
+  documentId: string;
+  state: QueueItemState;
+  summary?: string; // AI summary shown on the item's title card
+}
+
+export interface ReadingQueue {
+  items: QueueItem[];
+  currentId: string | null; // Item open in the reader; null while the queue is not being read
+  showSummaries: boolean; // Summarize each item on its title card before the full read
 }